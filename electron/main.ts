@@ -1,23 +1,207 @@
-import { app, BrowserWindow, ipcMain } from "electron";
+import { app, BrowserWindow, ipcMain, Notification } from "electron";
 import * as path from "path";
 import { globalShortcut } from "electron";
 import * as fs from "fs";
+import { pathToFileURL } from "url";
 import {
-  getAggregatedSnapshot,
   AggregatedSnapshot,
-  getRawDump,
+  configureLiveClient,
+  getLiveClientEndpoint,
 } from "../src/riotClient";
+import { LivePoller, LiveTick } from "../src/livePoller";
+import type { ConnectionStatus } from "../src/connectionState";
 import { loadSettings, saveSettings, AppSettings } from "./settings";
-import { TipsEngine } from "../src/tipsEngine";
+import { TipDelivery, TipPayload, TipsEngine } from "../src/tipsEngine";
+import { appendTipLog, postTipWebhook } from "../src/tipChannels";
+import { SessionRecorder } from "../src/sessionRecorder";
+import { MatchHistory } from "../src/matchHistory";
+import { simulateMatchTips } from "../src/tipsSim";
+import { configureObjectiveEra } from "../src/objectiveLedger";
+import { playerKey, SpellSlot, SpellTracker } from "../src/spellTracker";
+import { ensureItemIndex, ensureSummonerSpellIndex } from "../src/datadragon";
+import { SkillOrderTracker } from "../src/skillOrder";
+import { ItemTracker } from "../src/itemTracker";
+import type { GoldSample } from "../src/goldEstimate";
+import { TimeSeries } from "../src/timeSeries";
+import { configureCsTargets, CsSample } from "../src/csBenchmark";
+import { ApiServer, createApiToken, DEFAULT_API_PORT } from "../src/apiServer";
 
 let mainWindow: BrowserWindow | null = null;
 let rawWindow: BrowserWindow | null = null;
 let overlayWindow: BrowserWindow | null = null;
 let pollIntervalMs = 1000;
-let pollTimer: NodeJS.Timeout | null = null;
+const poller = new LivePoller({ intervalMs: pollIntervalMs });
+const spellTracker = new SpellTracker();
+const skillOrderTracker = new SkillOrderTracker();
+const itemTracker = new ItemTracker();
+const goldHistory = new TimeSeries<GoldSample>();
+const csHistory = new TimeSeries<CsSample>();
 let lastSnapshot: AggregatedSnapshot | null = null;
 const isDev = process.env.APP_DEV === "1" || !app.isPackaged;
 let tipsEngine: TipsEngine | null = null;
+let recorder: SessionRecorder | null = null;
+let matchHistory: MatchHistory | null = null;
+let apiServer: ApiServer | null = null;
+let obsOverlayUrl: string | null = null; // browser-source page, with the token
+// Master sound settings applied on top of each tip's own cue volume
+let soundMuted = false;
+let soundVolume = 1;
+
+const BUNDLED_SOUNDS = ["info", "warning", "critical"];
+
+function getRecordingsDir(): string {
+  return path.join(app.getPath("userData"), "recordings");
+}
+
+function applyRecordingSettings(settings: AppSettings) {
+  if (recorder) {
+    recorder.close();
+    recorder = null;
+  }
+  if (!settings.recordSessions) return;
+  const mb = 1024 * 1024;
+  const { host, port } = getLiveClientEndpoint();
+  recorder = new SessionRecorder({
+    dir: getRecordingsDir(),
+    maxFileBytes: settings.recordingMaxFileMB
+      ? settings.recordingMaxFileMB * mb
+      : undefined,
+    maxTotalBytes: settings.recordingMaxTotalMB
+      ? settings.recordingMaxTotalMB * mb
+      : undefined,
+    keep: settings.recordingKeep,
+    source: `${host}:${port}`,
+  });
+}
+
+// Volume setting as 0..1, full volume when unset or invalid
+function clampVolume(v: unknown): number {
+  const n = Number(v ?? 1);
+  return Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : 1;
+}
+
+// Bundled cue name, or a file (absolute or under data/sounds) as a file URL;
+// missing files fall back to the severity cue
+function resolveTipSound(name: string, severity: string | undefined) {
+  if (BUNDLED_SOUNDS.includes(name)) return { cue: name };
+  const file = path.isAbsolute(name)
+    ? name
+    : resolveAppPath("data", "sounds", name);
+  if (fs.existsSync(file)) return { url: pathToFileURL(file).href };
+  return { cue: severity || "info" };
+}
+
+// Play from the overlay while it's up (in game), else from the main window
+function playTipSound(delivery: TipDelivery) {
+  if (!delivery.sound || soundMuted) return;
+  const volume = delivery.sound.volume * soundVolume;
+  if (volume <= 0) return;
+  const target =
+    overlayWindow && !overlayWindow.isDestroyed() && overlayWindow.isVisible()
+      ? overlayWindow
+      : mainWindow && !mainWindow.isDestroyed()
+      ? mainWindow
+      : null;
+  target?.webContents.send("playSound", {
+    ...resolveTipSound(delivery.sound.name, delivery.severity),
+    volume,
+  });
+}
+
+// Relative log files go under userData/logs
+function resolveTipLogFile(file: string | undefined): string {
+  const dir = path.join(app.getPath("userData"), "logs");
+  if (!file) return path.join(dir, "tips.log");
+  return path.isAbsolute(file) ? file : path.join(dir, file);
+}
+
+function sendTip(win: BrowserWindow | null, tip: TipPayload, d: TipDelivery) {
+  if (!win || win.isDestroyed()) return;
+  win.webContents.send("tip", {
+    ...tip,
+    title: d.title,
+    body: d.body,
+    icon: d.icon,
+    severity: d.severity,
+    stickyMs: d.stickyMs ?? tip.stickyMs,
+  });
+}
+
+// Route each channel of a tip: overlay toasts also show in the dashboard
+// (unless the rule has its own dashboard channel), the rest leave the app.
+// A tip plays one sound: its sound channel's cue, else the first other cue.
+function deliverTip(tip: TipPayload) {
+  const gameTime = lastSnapshot?.game.time;
+  const dashboard = tip.channels.find((d) => d.type === "dashboard");
+  const cue =
+    tip.channels.find((d) => d.type === "sound" && d.sound) ||
+    tip.channels.find((d) => d.sound);
+  if (cue) playTipSound(cue);
+  for (const d of tip.channels) {
+    switch (d.type) {
+      case "overlay":
+        sendTip(overlayWindow, tip, d);
+        sendTip(rawWindow, tip, d);
+        if (!dashboard) sendTip(mainWindow, tip, d);
+        break;
+      case "dashboard":
+        sendTip(mainWindow, tip, d);
+        break;
+      case "notification":
+        if (Notification.isSupported()) {
+          new Notification({
+            title: d.icon ? `${d.icon} ${d.title}` : d.title,
+            body: d.body || "",
+          }).show();
+        }
+        break;
+      case "log":
+        appendTipLog(resolveTipLogFile(d.file), tip, d, gameTime).catch(
+          (err) => console.warn(`[tips] Log write failed: ${err?.message}`)
+        );
+        break;
+      case "webhook":
+        // Rules with a missing or non-http(s) url are dropped on load
+        if (!d.url) break;
+        postTipWebhook(d.url, tip, d, gameTime).catch((err) =>
+          console.warn(`[tips] Webhook failed: ${err?.message}`)
+        );
+        break;
+    }
+  }
+}
+
+// Opt-in local HTTP/WebSocket API; the token is created once and saved
+async function startApiServer(settings: AppSettings) {
+  if (!settings.apiEnabled) return;
+  let token = settings.apiToken;
+  if (!token) {
+    token = createApiToken();
+    await saveSettings({ ...(await loadSettings()), apiToken: token });
+  }
+  const server = new ApiServer({
+    port: settings.apiPort ?? DEFAULT_API_PORT,
+    token,
+    // OBS browser source: the overlay as a standalone page fed by /ws
+    files: {
+      "/obs": resolveAppPath("renderer", "obs.html"),
+      "/dist/renderer/obs.js": resolveAppPath("dist", "renderer", "obs.js"),
+      "/dist/renderer/objectiveIcons.js": resolveAppPath(
+        "dist",
+        "renderer",
+        "objectiveIcons.js"
+      ),
+    },
+  });
+  try {
+    const { host, port } = await server.start();
+    apiServer = server;
+    server.publishState(poller.connection);
+    obsOverlayUrl = `http://${host}:${port}/obs?token=${token}`;
+  } catch (err) {
+    console.warn(`[api] Failed to start: ${(err as Error).message}`);
+  }
+}
 
 // Avoid GPU shader disk cache writes (prevents Windows "Access is denied" cache errors)
 app.commandLine.appendSwitch("disable-gpu-shader-disk-cache");
@@ -115,70 +299,193 @@ function createOverlayWindow(): BrowserWindow {
   return win;
 }
 
-async function pollOnce() {
-  try {
-    const snapshot = await getAggregatedSnapshot();
-    lastSnapshot = snapshot;
-    if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send("snapshot", snapshot);
-    }
-    // Also send to raw window if open
-    if (rawWindow && !rawWindow.isDestroyed()) {
-      // Raw window doesn't need snapshot updates, it polls its own data
-    }
-    if (overlayWindow && !overlayWindow.isDestroyed()) {
-      overlayWindow.webContents.send("snapshot", snapshot);
-    }
-  } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : String(err);
-    if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send("snapshot", {
-        ...(lastSnapshot ?? {}),
-        error: true,
-        message,
-      });
-    }
+// Every subscriber is fed from the shared poller's single /allgamedata fetch
+poller.on("tick", (tick: LiveTick) => {
+  const { snapshot } = tick;
+  spellTracker.sync(snapshot.game.time);
+  snapshot.spellCooldowns = spellTracker.active(snapshot.game.time);
+  snapshot.skillOrder = skillOrderTracker.observe(
+    snapshot.game.time,
+    snapshot.abilities
+  );
+  snapshot.itemTimeline = itemTracker.observe(
+    snapshot.game.time,
+    tick.allGameData.allPlayers || [],
+    snapshot.team.myTeam
+  );
+  snapshot.goldHistory = goldHistory.add({
+    gameTime: snapshot.game.time,
+    ...snapshot.gold,
+  });
+  snapshot.csHistory = csHistory.add({
+    gameTime: snapshot.game.time,
+    cs: snapshot.csBenchmark.cs,
+    target: snapshot.csBenchmark.target,
+  });
+  recorder?.recordFrame(
+    { "/liveclientdata/allgamedata": tick.allGameData },
+    snapshot.game.time,
+    snapshot.game.mode
+  );
+  matchHistory?.record(snapshot);
+  lastSnapshot = snapshot;
+  tipsEngine?.ingest(snapshot);
+  // Raw window reads the shared raw dump through getRawDump
+  broadcastSnapshot(snapshot);
+});
+
+// Connection lifecycle (waiting, loading, in game, paused, …) for the windows
+poller.on("state", (status: ConnectionStatus) => {
+  for (const win of [mainWindow, overlayWindow]) {
+    if (win && !win.isDestroyed())
+      win.webContents.send("connectionState", status);
+  }
+  apiServer?.publishState(status);
+});
+
+poller.on("pollError", (message: string) => {
+  recorder?.recordFrame(null);
+  matchHistory?.record(null);
+  apiServer?.publishError(message);
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send("snapshot", {
+      ...(lastSnapshot ?? {}),
+      error: true,
+      message,
+    });
+  }
+});
+
+function broadcastSnapshot(snapshot: AggregatedSnapshot) {
+  apiServer?.publishSnapshot(snapshot);
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send("snapshot", snapshot);
+  }
+  if (overlayWindow && !overlayWindow.isDestroyed()) {
+    overlayWindow.webContents.send("snapshot", snapshot);
   }
 }
 
+// Mark (or un-mark) a summoner spell as used and push the new cooldowns
+function toggleSpell(player: any, slot: SpellSlot) {
+  if (!player || !lastSnapshot || lastSnapshot.error) return;
+  const time = lastSnapshot.game.time;
+  spellTracker.toggle(player, slot, time);
+  lastSnapshot = { ...lastSnapshot, spellCooldowns: spellTracker.active(time) };
+  broadcastSnapshot(lastSnapshot);
+}
+
+// Hotkey marking: enemy N in scoreboard order, their Flash or other spell
+function toggleEnemySpell(index: number, flash: boolean) {
+  const tick = poller.latest;
+  if (!tick) return;
+  const myTeam = tick.snapshot.team.myTeam;
+  const p = (tick.allGameData.allPlayers || []).filter(
+    (x: any) => x.team && x.team !== myTeam
+  )[index];
+  const flashOnF = /flash/i.test(
+    p?.summonerSpells?.summonerSpellTwo?.displayName || ""
+  );
+  toggleSpell(p, flash === flashOnF ? "f" : "d");
+}
+
+// Enemy N (1..5, scoreboard order) used Flash (or their first spell) / their
+// other spell. Registered only while spellHotkeys is on, since these chords
+// are system-wide and would shadow other apps' shortcuts.
+const DEFAULT_SPELL_HOTKEYS = {
+  flash: [1, 2, 3, 4, 5].map((n) => `CommandOrControl+Shift+${n}`),
+  other: [1, 2, 3, 4, 5].map((n) => `CommandOrControl+Alt+${n}`),
+};
+let spellHotkeys: string[] = [];
+let spellHotkeyFailures: string[] = [];
+
+function applySpellHotkeys(settings: AppSettings) {
+  for (const accelerator of spellHotkeys) {
+    try {
+      globalShortcut.unregister(accelerator);
+    } catch {}
+  }
+  spellHotkeys = [];
+  spellHotkeyFailures = [];
+  if (!settings.spellHotkeys) return;
+  const bind = (accelerator: string | undefined, fn: () => void) => {
+    if (!accelerator) return;
+    let ok = false;
+    try {
+      ok = globalShortcut.register(accelerator, fn);
+    } catch {}
+    if (ok) spellHotkeys.push(accelerator);
+    else spellHotkeyFailures.push(accelerator);
+  };
+  for (let i = 0; i < 5; i++) {
+    bind(
+      settings.spellHotkeysFlash?.[i] ?? DEFAULT_SPELL_HOTKEYS.flash[i],
+      () => toggleEnemySpell(i, true)
+    );
+    bind(
+      settings.spellHotkeysOther?.[i] ?? DEFAULT_SPELL_HOTKEYS.other[i],
+      () => toggleEnemySpell(i, false)
+    );
+  }
+  if (spellHotkeyFailures.length) {
+    console.warn(
+      "[hotkeys] Could not register (invalid or used by another app):",
+      spellHotkeyFailures.join(", ")
+    );
+  }
+}
+
+async function pollOnce() {
+  await poller.pollOnce();
+}
+
 function startPolling() {
-  stopPolling();
-  pollTimer = setInterval(pollOnce, pollIntervalMs);
-  void pollOnce();
+  poller.setIntervalMs(pollIntervalMs);
+  poller.start();
 }
 
 function stopPolling() {
-  if (pollTimer) {
-    clearInterval(pollTimer);
-    pollTimer = null;
-  }
+  poller.stop();
 }
 
 app.whenReady().then(async () => {
   const settings = await loadSettings();
   pollIntervalMs = settings.pollIntervalMs ?? 1000;
+  // Environment variables (PEWPEW_LIVE_HOST/PORT) take precedence over settings
+  configureLiveClient({
+    host: process.env.PEWPEW_LIVE_HOST ? undefined : settings.liveClientHost,
+    port: process.env.PEWPEW_LIVE_PORT ? undefined : settings.liveClientPort,
+  });
+  configureObjectiveEra(settings.objectiveEra);
+  configureCsTargets(settings.csTargets, settings.csRole);
+  soundMuted = !!settings.soundMuted;
+  soundVolume = clampVolume(settings.soundVolume);
+  void ensureSummonerSpellIndex().then((cooldowns) => {
+    if (cooldowns.size) spellTracker.setBaseCooldowns(cooldowns);
+  });
+  void ensureItemIndex().then((index) => {
+    if (index.size) itemTracker.setItemIndex(index);
+  });
+  applyRecordingSettings(settings);
+  applySpellHotkeys(settings);
+  void startApiServer(settings);
+  matchHistory = new MatchHistory({
+    dir: path.join(app.getPath("userData"), "matches"),
+  });
 
   mainWindow = createWindow();
   // Start polling for the main window
   startPolling();
-  // Start tips engine (runs its own lightweight 1s tick)
+  // Start tips engine (fed from the shared poller, no extra snapshot fetches)
   try {
     tipsEngine = new TipsEngine({
-      getSnapshot: async () => await getAggregatedSnapshot(),
       configDir: require("path").join(resolveAppPath("data", "tips")),
     });
     tipsEngine.on("tip", (payload) => {
-      if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send("tip", payload);
-      }
-      if (rawWindow && !rawWindow.isDestroyed()) {
-        rawWindow.webContents.send("tip", payload);
-      }
-      if (overlayWindow && !overlayWindow.isDestroyed()) {
-        overlayWindow.webContents.send("tip", payload);
-      }
+      matchHistory?.recordTip(payload, lastSnapshot?.game.time);
+      apiServer?.publishTip(payload, lastSnapshot?.game.time);
+      deliverTip(payload);
     });
-    tipsEngine.start();
   } catch {
     tipsEngine = null;
   }
@@ -211,6 +518,14 @@ app.on("window-all-closed", () => {
     tipsEngine = null;
   }
   stopPolling();
+  if (recorder) {
+    recorder.close();
+    recorder = null;
+  }
+  matchHistory?.close();
+  matchHistory = null;
+  void apiServer?.stop();
+  apiServer = null;
   if (process.platform !== "darwin") {
     app.quit();
   }
@@ -222,6 +537,17 @@ app.on("will-quit", () => {
   } catch {}
 });
 
+ipcMain.handle(
+  "markSpellUsed",
+  async (_evt, player: string, slot: SpellSlot) => {
+    const p = (poller.latest?.allGameData.allPlayers || []).find(
+      (x: any) => playerKey(x) === player
+    );
+    if (slot === "d" || slot === "f") toggleSpell(p, slot);
+    return lastSnapshot?.spellCooldowns ?? [];
+  }
+);
+
 ipcMain.handle("getSnapshot", async (): Promise<AggregatedSnapshot | null> => {
   if (!lastSnapshot) {
     await pollOnce();
@@ -229,15 +555,47 @@ ipcMain.handle("getSnapshot", async (): Promise<AggregatedSnapshot | null> => {
   return lastSnapshot;
 });
 
+ipcMain.handle("getConnectionState", async () => poller.connection);
+
 ipcMain.handle("setPollingInterval", async (_evt, ms: number) => {
   const clamped = Math.max(250, Math.min(10000, Number(ms) || 1000));
   pollIntervalMs = clamped;
-  const newSettings: AppSettings = { pollIntervalMs: clamped };
+  const newSettings: AppSettings = {
+    ...(await loadSettings()),
+    pollIntervalMs: clamped,
+  };
   await saveSettings(newSettings);
   startPolling();
   return { ok: true, pollIntervalMs };
 });
 
+ipcMain.handle("setRecording", async (_evt, enabled: boolean) => {
+  const newSettings: AppSettings = {
+    ...(await loadSettings()),
+    recordSessions: !!enabled,
+  };
+  await saveSettings(newSettings);
+  applyRecordingSettings(newSettings);
+  return { ok: true, recordSessions: !!enabled };
+});
+
+ipcMain.handle("setSpellHotkeys", async (_evt, enabled: boolean) => {
+  const newSettings: AppSettings = {
+    ...(await loadSettings()),
+    spellHotkeys: !!enabled,
+  };
+  await saveSettings(newSettings);
+  applySpellHotkeys(newSettings);
+  return { ok: true, spellHotkeys: !!enabled, failed: spellHotkeyFailures };
+});
+
+ipcMain.handle("setSound", async (_evt, muted: boolean, volume: number) => {
+  soundMuted = !!muted;
+  soundVolume = clampVolume(volume);
+  await saveSettings({ ...(await loadSettings()), soundMuted, soundVolume });
+  return { ok: true, soundMuted, soundVolume };
+});
+
 ipcMain.handle("openRawWindow", async () => {
   if (!isDev) {
     // Disabled in packaged builds
@@ -255,14 +613,43 @@ ipcMain.handle("getSettings", async () => {
   const s = await loadSettings();
   return {
     pollIntervalMs: s.pollIntervalMs ?? pollIntervalMs,
+    recordSessions: !!s.recordSessions,
+    recordingsDir: getRecordingsDir(),
+    spellHotkeys: !!s.spellHotkeys,
+    spellHotkeyFailures,
+    soundMuted,
+    soundVolume,
+    obsOverlayUrl,
     isDev,
     version: app.getVersion(),
   };
 });
 
 ipcMain.handle("getRawDump", async () => {
-  const dump = await getRawDump();
-  return dump;
+  // Derived from the poller's latest /allgamedata payload; no extra requests
+  if (!poller.latest) {
+    await pollOnce();
+  }
+  return poller.latest ? poller.latest.rawDump : null;
+});
+
+ipcMain.handle("listMatches", async () => {
+  return matchHistory ? matchHistory.list() : [];
+});
+
+ipcMain.handle("loadMatch", async (_evt, id: string) => {
+  const match = matchHistory ? matchHistory.load(String(id || "")) : null;
+  if (!match || !match.frames.length) return match;
+  // Replay what the current rules would have fired, not only what did fire
+  try {
+    match.simulatedTips = await simulateMatchTips(
+      match,
+      resolveAppPath("data", "tips")
+    );
+  } catch (err) {
+    console.warn("[replay] Tips simulation failed:", err);
+  }
+  return match;
 });
 
 ipcMain.handle("emitTestTip", async (_evt, payload: any) => {
@@ -11,11 +11,32 @@ contextBridge.exposeInMainWorld("api", {
     ipcRenderer.on("tip", listener as any);
     return () => ipcRenderer.removeListener("tip", listener as any);
   },
+  onPlaySound: (callback: (sound: unknown) => void) => {
+    const listener = (_event: unknown, sound: unknown) => callback(sound);
+    ipcRenderer.on("playSound", listener as any);
+    return () => ipcRenderer.removeListener("playSound", listener as any);
+  },
+  onConnectionState: (callback: (status: unknown) => void) => {
+    const listener = (_event: unknown, status: unknown) => callback(status);
+    ipcRenderer.on("connectionState", listener as any);
+    return () => ipcRenderer.removeListener("connectionState", listener as any);
+  },
+  getConnectionState: () => ipcRenderer.invoke("getConnectionState"),
   getSnapshot: () => ipcRenderer.invoke("getSnapshot"),
   setPollingInterval: (ms: number) =>
     ipcRenderer.invoke("setPollingInterval", ms),
   getSettings: () => ipcRenderer.invoke("getSettings"),
+  setRecording: (enabled: boolean) =>
+    ipcRenderer.invoke("setRecording", enabled),
+  setSpellHotkeys: (enabled: boolean) =>
+    ipcRenderer.invoke("setSpellHotkeys", enabled),
+  setSound: (muted: boolean, volume: number) =>
+    ipcRenderer.invoke("setSound", muted, volume),
   getRawDump: () => ipcRenderer.invoke("getRawDump"),
+  markSpellUsed: (player: string, slot: "d" | "f") =>
+    ipcRenderer.invoke("markSpellUsed", player, slot),
+  listMatches: () => ipcRenderer.invoke("listMatches"),
+  loadMatch: (id: string) => ipcRenderer.invoke("loadMatch", id),
   emitTestTip: (payload: unknown) => ipcRenderer.invoke("emitTestTip", payload),
   openRawWindow: () => ipcRenderer.invoke("openRawWindow"),
   toggleOverlay: () => ipcRenderer.invoke("toggleOverlay"),
@@ -1,9 +1,35 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
+import type { CsRole, CsTarget } from '../src/csBenchmark';
 
 export interface AppSettings {
 	pollIntervalMs?: number;
+	// Live Client Data API endpoint (defaults to 127.0.0.1:2999); point at the mock server for development
+	liveClientHost?: string;
+	liveClientPort?: number;
+	// Opt-in recording of raw Live Client responses to userData/recordings
+	recordSessions?: boolean;
+	recordingMaxFileMB?: number;
+	recordingMaxTotalMB?: number;
+	recordingKeep?: number;
+	// Objective spawn rules per patch era; 'auto' infers the era from events
+	objectiveEra?: 'auto' | 'pre2024' | '2024' | '2025';
+	// CS coach: target CS totals at game minutes per role, e.g. mid: [{ minute: 10, cs: 80 }]
+	csTargets?: Partial<Record<CsRole, CsTarget[]>>;
+	// Role for the CS targets; 'auto' uses the assigned position (mid when unknown)
+	csRole?: 'auto' | CsRole;
+	// Global hotkeys marking enemy summoner spells (off by default); one accelerator per enemy 1..5
+	spellHotkeys?: boolean;
+	spellHotkeysFlash?: string[];
+	spellHotkeysOther?: string[];
+	// Tip sound cues: master mute and volume (0..1)
+	soundMuted?: boolean;
+	soundVolume?: number;
+	// Local HTTP + WebSocket API on 127.0.0.1 (off by default); the token is generated on first start
+	apiEnabled?: boolean;
+	apiPort?: number;
+	apiToken?: string;
 }
 
 const SETTINGS_FILE = 'settings.json';
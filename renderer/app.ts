@@ -1,5 +1,31 @@
 (() => {
-  type Ability = { name: string } | null;
+  type Ability = {
+    name: string;
+    level?: number;
+    cooldownSec?: number | null;
+  } | null;
+  type Structure = {
+    id: string;
+    kind: "turret" | "inhibitor";
+    team: "ORDER" | "CHAOS";
+    lane: "top" | "mid" | "bot" | "base";
+    tier: string | null;
+    side: "myTeam" | "enemyTeam" | null;
+    alive: boolean;
+    respawnsAt: number | null;
+  };
+  type ObjectiveTimer = {
+    timeToSpawn: string;
+    despawnsIn?: string | null;
+    status?: "upcoming" | "alive" | "gone";
+    taken?: Record<"myTeam" | "enemyTeam", number>;
+  };
+  type GoldSample = {
+    gameTime: number;
+    myTeam: number;
+    enemyTeam: number;
+    diff: number;
+  };
   type Snapshot = {
     error: boolean;
     message?: string;
@@ -23,9 +49,23 @@
     spells: { d: string; f: string };
     abilities: { q: Ability; w: Ability; e: Ability; r: Ability };
     objectives: {
-      dragon: { timeToSpawn: string; lastKillType: string | null };
-      herald: { timeToSpawn: string; despawnsIn: string };
-      baron: { timeToSpawn: string };
+      dragon: {
+        timeToSpawn: string;
+        lastKillType: string | null;
+        nextIsElder: boolean;
+        counts: Record<"myTeam" | "enemyTeam", Record<string, number>>;
+        totals: Record<"myTeam" | "enemyTeam", number>;
+        soulPoint: Record<"myTeam" | "enemyTeam", boolean>;
+        soulType: string | null;
+        soulTypeCandidates: string[];
+        soulTakenBy: "myTeam" | "enemyTeam" | null;
+        elderKills: Record<"myTeam" | "enemyTeam", number>;
+      };
+      herald: ObjectiveTimer;
+      grubs?: ObjectiveTimer | null;
+      atakhan?: ObjectiveTimer | null;
+      baron: ObjectiveTimer;
+      era?: string;
     };
     assets?: {
       version: string;
@@ -50,13 +90,122 @@
       turrets: { myTeam: number; enemyTeam: number };
       inhibs: { myTeam: number; enemyTeam: number };
     };
+    skillOrder?: {
+      baseline: Record<"q" | "w" | "e" | "r", number>;
+      history: Array<{ point: number; ability: "q" | "w" | "e" | "r" }>;
+    };
+    gold?: { myTeam: number; enemyTeam: number; diff: number };
+    goldHistory?: Array<GoldSample>;
+    csBenchmark?: {
+      role: string;
+      cs: number;
+      target: number;
+      max: number | null;
+      diff: number;
+    };
+    csHistory?: Array<{ gameTime: number; cs: number; target: number }>;
+    itemTimeline?: {
+      events: Array<{
+        gameTime: number;
+        player: string;
+        champion: string;
+        side: "myTeam" | "enemyTeam" | null;
+        kind: "completed" | "component" | "sold";
+        item: string;
+        price: number;
+      }>;
+      playerGold: Record<string, number>;
+      teamGold: { myTeam: number; enemyTeam: number };
+    };
+    spellCooldowns?: Array<{
+      player: string;
+      champion: string;
+      slot: "d" | "f";
+      spell: string;
+      readyAt: number;
+    }>;
+    structures?: {
+      turrets: Array<Structure>;
+      inhibitors: Array<Structure>;
+    };
+    buffs?: Array<{
+      kind: "baron" | "elder";
+      team: "myTeam" | "enemyTeam" | null;
+      expiresIn: string;
+      holders: string[];
+    }>;
     raw?: {
       gameStats: any;
       events: Array<any>;
+      players?: Array<any>;
     };
   };
 
+  // Match history as returned by the main process (see src/matchHistory.ts)
+  type MatchSummary = {
+    id: string;
+    recordedAt: number;
+    champion: string;
+    mode: string;
+    sizeBytes: number;
+  };
+  type LoadedMatch = {
+    id: string;
+    header: { recordedAt: string; champion: string; mode: string } | null;
+    frames: Array<{ gameTime: number; wallClock: number; snapshot: Snapshot }>;
+    frameSpacingSec: number;
+    tips: Array<ReplayTip>;
+    simulatedTips?: Array<ReplayTip>;
+  };
+  type ReplayTip = { gameTime: number; wallClock: number; tip: any };
+
   const { createApp, ref, onMounted, computed, watch } = (window as any).Vue;
+  // See objectiveIcons.ts
+  const ICONS: Record<string, string> = (window as any).OBJECTIVE_ICONS;
+
+  const DRAGON_ICONS: Record<string, string> = {
+    Fire: "🔥",
+    Earth: "⛰️",
+    Water: "🌊",
+    Air: "🌪️",
+    Hextech: "⚡",
+    Chemtech: "☣️",
+    Elder: ICONS.elder,
+  };
+
+  // Mini-map positions (0–100, blue base bottom-left) of ORDER structures;
+  // CHAOS ones are the point reflection of the opposite lane
+  const STRUCTURE_POS: Record<string, [number, number]> = {
+    "top:outer": [9, 28],
+    "top:inner": [11, 50],
+    "top:inhib": [10, 68],
+    "top:inhibitor": [10, 75],
+    "mid:outer": [42, 58],
+    "mid:inner": [35, 65],
+    "mid:inhib": [27, 73],
+    "mid:inhibitor": [22, 78],
+    "bot:outer": [72, 91],
+    "bot:inner": [50, 89],
+    "bot:inhib": [32, 90],
+    "bot:inhibitor": [25, 90],
+    "base:nexus:0": [14, 82],
+    "base:nexus:1": [18, 86],
+  };
+
+  function structurePos(s: Structure): [number, number] {
+    const flip = s.team === "CHAOS";
+    let lane = s.lane;
+    if (flip && lane === "top") lane = "bot";
+    else if (flip && lane === "bot") lane = "top";
+    const key =
+      s.kind === "inhibitor"
+        ? `${lane}:inhibitor`
+        : s.tier === "nexus"
+        ? `base:nexus:${s.id.includes("_C_01_") ? 0 : 1}`
+        : `${lane}:${s.tier}`;
+    const [x, y] = STRUCTURE_POS[key] || [50, 50];
+    return flip ? [100 - x, 100 - y] : [x, y];
+  }
 
   function fmtClock(seconds: number): string {
     const s = Math.floor(seconds);
@@ -65,6 +214,14 @@
     return `${m}:${sec}`;
   }
 
+  // Gold amounts as "950" / "12.3k"; signed adds a +/- prefix
+  function fmtGold(gold: number, signed = false): string {
+    const abs = Math.abs(gold);
+    const text = abs >= 1000 ? `${(abs / 1000).toFixed(1)}k` : String(abs);
+    const sign = gold < 0 ? "-" : signed && gold > 0 ? "+" : "";
+    return sign + text;
+  }
+
   // Cache champion index by Data Dragon version to avoid repeated large JSON downloads
   const championIndexByVersion: Record<string, Record<string, string>> = {};
   const championIndexPromises = new Map<
@@ -110,12 +267,25 @@
 
   createApp({
     setup() {
-      const snapshot = ref(null as Snapshot | null);
+      const liveSnapshot = ref(null as Snapshot | null);
       const pollMs = ref(1000 as number);
+      const recordSessions = ref(false as boolean);
+      const spellHotkeys = ref(false as boolean);
+      const spellHotkeyFailures = ref([] as string[]);
+      const soundMuted = ref(false as boolean);
+      const soundVolume = ref(100); // percent
+      const obsOverlayUrl = ref("");
+      const obsUrlCopied = ref(false);
       const isDev = ref(false as boolean);
       const appVersion = ref("" as string);
       const debugOpen = ref(false as boolean);
-      const activeTab = ref("home" as "home" | "live");
+      const activeTab = ref("home" as "home" | "live" | "replays");
+      // Live Client lifecycle from the main process (connectionState.ts)
+      type ConnectionStatus = { state: string; since: number; message?: string };
+      const connection = ref({
+        state: "idle",
+        since: Date.now(),
+      } as ConnectionStatus);
       const toasts = ref(
         [] as Array<{
           id: string;
@@ -137,6 +307,40 @@
       };
       const notifications = ref([] as Array<Notif>);
 
+      function tipToNotif(tip: any, at: number, id: string): Notif {
+        const severity =
+          tip?.severity === "warning" || tip?.severity === "critical"
+            ? tip.severity
+            : "info";
+        // Derive simple category for UI split
+        const category: "wave" | "macro" | "other" =
+          tip?.metadata && typeof tip.metadata === "object"
+            ? typeof (tip.metadata as any).waveIndex === "number"
+              ? "wave"
+              : typeof (tip.metadata as any).objective === "string"
+              ? "macro"
+              : "other"
+            : "other";
+        // Ensure non-empty title
+        let notifTitle = String(tip?.title || "").trim();
+        const notifBodyRaw = tip?.body ? String(tip.body) : "";
+        const notifBody = notifBodyRaw ? notifBodyRaw.trim() : "";
+        if (!notifTitle && notifBody) {
+          notifTitle =
+            notifBody.length > 80 ? notifBody.slice(0, 80) + "…" : notifBody;
+        }
+        if (!notifTitle) notifTitle = "Notification";
+        return {
+          id,
+          title: notifTitle,
+          body: notifBody || undefined,
+          icon: tip?.icon ? String(tip.icon) : undefined,
+          severity,
+          at,
+          category,
+        };
+      }
+
       // Throttle for raw dump building (avoid heavy processing too frequently)
       let lastRawDumpAt = 0;
       const RAW_DUMP_MIN_INTERVAL_MS = 2000;
@@ -150,6 +354,32 @@
         await (window as any).api.setPollingInterval(pollMs.value);
       }
 
+      async function applyRecording() {
+        await (window as any).api.setRecording(recordSessions.value);
+      }
+
+      async function applySpellHotkeys() {
+        const res = await (window as any).api.setSpellHotkeys(
+          spellHotkeys.value
+        );
+        spellHotkeyFailures.value = res?.failed || [];
+      }
+
+      async function applySound() {
+        await (window as any).api.setSound(
+          soundMuted.value,
+          soundVolume.value / 100
+        );
+      }
+
+      async function copyObsUrl() {
+        try {
+          await navigator.clipboard.writeText(obsOverlayUrl.value);
+          obsUrlCopied.value = true;
+          setTimeout(() => (obsUrlCopied.value = false), 2000);
+        } catch {}
+      }
+
       async function openRaw() {
         await (window as any).api.openRawWindow();
       }
@@ -157,15 +387,31 @@
       onMounted(async () => {
         const settings = await (window as any).api.getSettings();
         pollMs.value = settings.pollIntervalMs ?? 1000;
+        recordSessions.value = !!settings.recordSessions;
+        spellHotkeys.value = !!settings.spellHotkeys;
+        spellHotkeyFailures.value = settings.spellHotkeyFailures || [];
+        soundMuted.value = !!settings.soundMuted;
+        soundVolume.value = Math.round((settings.soundVolume ?? 1) * 100);
+        obsOverlayUrl.value = String(settings.obsOverlayUrl || "");
         isDev.value = !!settings.isDev;
         appVersion.value = String(settings.version || "");
 
+        connection.value = await (window as any).api.getConnectionState();
+        (window as any).api.onConnectionState((status: ConnectionStatus) => {
+          connection.value = status;
+          // The game is over or gone; a lost connection keeps the overlay up
+          if (["idle", "clientNotRunning", "postGame"].includes(status.state)) {
+            try {
+              void (window as any).api.hideOverlay();
+            } catch {}
+          }
+        });
+
         const s = await (window as any).api.getSnapshot();
         if (s) {
-          snapshot.value = s;
-          previousHasData.value = hasData.value;
+          liveSnapshot.value = s;
           // Load teams if already in game
-          if (hasData.value) {
+          if (liveHasData.value) {
             lastRawDumpAt = Date.now();
             void loadRawDump();
             // Ensure overlay is visible if already in game at startup
@@ -175,24 +421,27 @@
           }
         }
         (window as any).api.onSnapshot((data: Snapshot) => {
-          const wasInGame = hasData.value;
-          snapshot.value = data;
+          const wasInGame = liveHasData.value;
+          liveSnapshot.value = data;
           // Auto-switch to live game tab when game starts
-          if (hasData.value && !wasInGame) {
+          if (liveHasData.value && !wasInGame) {
             activeTab.value = "live";
             // Auto-open overlay when entering a live game
             try {
               void (window as any).api.showOverlay();
             } catch {}
-          } else if (!hasData.value && wasInGame) {
-            // Game ended or connection lost → hide overlay
-            try {
-              void (window as any).api.hideOverlay();
-            } catch {}
+          } else if (!liveHasData.value && wasInGame) {
+            // Game ended → hide overlay (it stays up to show a lost connection)
+            if (connection.value.state !== "connectionLost") {
+              try {
+                void (window as any).api.hideOverlay();
+              } catch {}
+            }
+            // The finished match is now available as a replay
+            void refreshMatches();
           }
-          previousHasData.value = hasData.value;
           // Reload teams when snapshot updates (in case players changed)
-          if (hasData.value) {
+          if (liveHasData.value) {
             const now = Date.now();
             if (now - lastRawDumpAt >= RAW_DUMP_MIN_INTERVAL_MS) {
               lastRawDumpAt = now;
@@ -213,15 +462,6 @@
                 ? tip.severity
                 : "info";
             const idStr = String(tip?.id || Math.random());
-            // Derive simple category for UI split
-            const category: "wave" | "macro" | "other" =
-              tip?.metadata && typeof tip.metadata === "object"
-                ? typeof (tip.metadata as any).waveIndex === "number"
-                  ? "wave"
-                  : typeof (tip.metadata as any).objective === "string"
-                  ? "macro"
-                  : "other"
-                : "other";
             // Normalize title/body so popups always have a visible title
             let toastTitle = String(tip?.title || "").trim();
             const toastBodyRaw = tip?.body ? String(tip.body) : "";
@@ -243,26 +483,10 @@
             };
             toasts.value.push(toast);
 
-            // Notifications list entry (ensure non-empty title too)
-            let notifTitle = String(tip?.title || "").trim();
-            const notifBodyRaw = tip?.body ? String(tip.body) : "";
-            const notifBody = notifBodyRaw ? notifBodyRaw.trim() : "";
-            if (!notifTitle && notifBody) {
-              notifTitle =
-                notifBody.length > 80
-                  ? notifBody.slice(0, 80) + "…"
-                  : notifBody;
-            }
-            if (!notifTitle) notifTitle = "Notification";
-            notifications.value.unshift({
-              id: idStr + "-" + until,
-              title: notifTitle,
-              body: notifBody || undefined,
-              icon: tip?.icon ? String(tip.icon) : undefined,
-              severity,
-              at: Date.now(),
-              category,
-            });
+            // Notifications list entry
+            notifications.value.unshift(
+              tipToNotif(tip, Date.now(), idStr + "-" + until)
+            );
             // cap history
             if (notifications.value.length > 100) {
               notifications.value.length = 100;
@@ -294,12 +518,109 @@
         }
       }
 
+      // Replays: a loaded match and the game time the slider points at
+      const matches = ref([] as Array<MatchSummary>);
+      const replay = ref(null as LoadedMatch | null);
+      const replayTime = ref(0 as number);
+      const replayLoading = ref(false as boolean);
+      // "simulated": the current rules run over the frames; "recorded": the
+      // tips that fired during the live game
+      const replayTipSource = ref("simulated" as "simulated" | "recorded");
+
+      const replayFrame = computed(() => {
+        const frames = replay.value?.frames || [];
+        let found = frames[0] || null;
+        for (const f of frames) {
+          if (f.gameTime <= replayTime.value) found = f;
+          else break;
+        }
+        return found;
+      });
+      const replayDuration = computed(() => {
+        const frames = replay.value?.frames || [];
+        return frames.length ? frames[frames.length - 1].gameTime : 0;
+      });
+
+      async function refreshMatches() {
+        try {
+          matches.value = (await (window as any).api.listMatches()) || [];
+        } catch {
+          matches.value = [];
+        }
+      }
+
+      async function openMatch(id: string) {
+        replayLoading.value = true;
+        try {
+          const m = (await (window as any).api.loadMatch(id)) as LoadedMatch;
+          replay.value = m && m.frames.length ? m : null;
+          replayTime.value = replay.value ? replayDuration.value : 0;
+        } finally {
+          replayLoading.value = false;
+        }
+      }
+
+      function closeReplay() {
+        replay.value = null;
+        replayTime.value = 0;
+        startTeamBuild(replayTeams);
+        replayTeams.value = { my: [], enemy: [] };
+      }
+
+      // Cards render the live snapshot, or the replay frame on the Replays tab
+      const snapshot = computed(() => {
+        if (activeTab.value === "replays") {
+          return replayFrame.value ? replayFrame.value.snapshot : null;
+        }
+        return liveSnapshot.value;
+      });
+
       const hasData = computed(() => {
         return !!snapshot.value && !snapshot.value.error;
       });
 
-      // Auto-switch to live game tab when game starts
-      const previousHasData = ref(false);
+      const liveHasData = computed(() => {
+        return !!liveSnapshot.value && !liveSnapshot.value.error;
+      });
+
+      const CONNECTION_LABELS: Record<
+        string,
+        { label: string; title: string; detail: string }
+      > = {
+        idle: {
+          label: "Starting…",
+          title: "Waiting for a live game",
+          detail: "Start a match and keep this window running.",
+        },
+        clientNotRunning: {
+          label: "Waiting for game",
+          title: "Waiting for a live game",
+          detail:
+            "Start a match and keep this window running. We’ll show your live data and tips here.",
+        },
+        loading: {
+          label: "Loading…",
+          title: "Game is loading…",
+          detail: "Live data and tips start as soon as the match begins.",
+        },
+        inGame: { label: "In game", title: "", detail: "" },
+        paused: { label: "Paused", title: "", detail: "" },
+        postGame: {
+          label: "Game over",
+          title: "Game over",
+          detail:
+            "The match is saved under Replays. We’ll pick up the next game automatically.",
+        },
+        connectionLost: {
+          label: "Connection lost",
+          title: "Connection lost",
+          detail: "The game stopped answering; retrying…",
+        },
+      };
+      const connectionInfo = computed(
+        () =>
+          CONNECTION_LABELS[connection.value.state] || CONNECTION_LABELS.idle
+      );
 
       // Items: separate regular items (0-5) and trinket (6)
       // items array is always 7 items indexed by slot (0-6)
@@ -363,7 +684,12 @@
         if (!snapshot.value?.raw?.events) return [];
         const list = snapshot.value.raw.events;
         const recent = list.slice(-30).reverse();
-        const out: Array<{ icon: string; time: string; text: string }> = [];
+        const out: Array<{
+          icon: string;
+          time: string;
+          text: string;
+          at: number;
+        }> = [];
         for (const ev of recent) {
           const t =
             typeof ev.EventTime === "number" ? fmtClock(ev.EventTime) : "";
@@ -391,17 +717,54 @@
             icon = "👥";
             text = "Minions Spawning";
           }
-          out.push({ icon, time: t, text });
+          out.push({ icon, time: t, text, at: Number(ev.EventTime) || 0 });
+        }
+        // Purchases and sales from the main process's item tracker
+        const items = snapshot.value.itemTimeline?.events || [];
+        for (const it of items.slice(-30)) {
+          const who = it.champion || it.player;
+          out.push({
+            icon:
+              it.kind === "completed" ? "✅" : it.kind === "sold" ? "💰" : "🛒",
+            time: fmtClock(it.gameTime),
+            text:
+              it.kind === "completed"
+                ? `${who} completed ${it.item}`
+                : it.kind === "sold"
+                ? `${who} sold ${it.item}`
+                : `${who} bought ${it.item}`,
+            at: it.gameTime,
+          });
         }
-        return out;
+        return out.sort((a, b) => b.at - a.at).slice(0, 30);
+      });
+
+      // Tips up to the replay slider position, simulated or as fired live
+      const replayTips = computed(() => {
+        if (!replay.value) return [] as Array<ReplayTip>;
+        return replayTipSource.value === "simulated"
+          ? replay.value.simulatedTips || []
+          : replay.value.tips;
       });
+      const replayNotifs = computed(() => {
+        if (!replay.value) return [] as Notif[];
+        return replayTips.value
+          .filter((t: ReplayTip) => t.gameTime <= replayTime.value)
+          .map((t: ReplayTip, idx: number) =>
+            tipToNotif(t.tip, t.wallClock, `${t.tip?.id || "tip"}-${idx}`)
+          )
+          .reverse();
+      });
+      const shownNotifs = computed(() =>
+        activeTab.value === "replays" ? replayNotifs.value : notifications.value
+      );
 
       // Split notifications into macro vs wave
       const waveNotifs = computed(() =>
-        notifications.value.filter((n: Notif) => n.category === "wave")
+        shownNotifs.value.filter((n: Notif) => n.category === "wave")
       );
       const macroNotifs = computed(() =>
-        notifications.value.filter(
+        shownNotifs.value.filter(
           (n: Notif) => n.category === "macro" || n.category === "other"
         )
       );
@@ -423,31 +786,295 @@
         };
       });
 
+      // Dragon pit summary for the Objective Preparation card
+      const dragon = computed(() => {
+        const d = snapshot.value?.objectives?.dragon;
+        if (!d || !d.counts) return null;
+        const side = (key: "myTeam" | "enemyTeam") => ({
+          total: d.totals[key],
+          icons: Object.entries(d.counts[key]).flatMap(([type, n]) =>
+            Array(n).fill(DRAGON_ICONS[type] || type)
+          ),
+          soulPoint: d.soulPoint[key],
+          hasSoul: d.soulTakenBy === key,
+          elders: d.elderKills[key],
+        });
+        return {
+          label: d.nextIsElder ? "Elder Dragon" : "Dragon",
+          timeToSpawn: d.timeToSpawn,
+          soul: d.soulType
+            ? `${DRAGON_ICONS[d.soulType] || ""} ${d.soulType}`.trim()
+            : d.soulTypeCandidates.length
+            ? `one of ${d.soulTypeCandidates.join(", ")}`
+            : "",
+          my: side("myTeam"),
+          enemy: side("enemyTeam"),
+        };
+      });
+
+      // Herald / grubs / Atakhan / Baron rows, skipping objectives the era lacks
+      const epicTimers = computed(() => {
+        const o = snapshot.value?.objectives;
+        if (!o) return [];
+        const rows: Array<[string, string, ObjectiveTimer | null | undefined]> =
+          [
+            [ICONS.grubs, "Void Grubs", o.grubs],
+            [ICONS.herald, "Rift Herald", o.herald],
+            [ICONS.atakhan, "Atakhan", o.atakhan],
+            [ICONS.baron, "Baron", o.baron],
+          ];
+        return rows
+          .filter(([, , t]) => !!t)
+          .map(([icon, label, t]) => ({
+            icon,
+            label,
+            status: t!.status || "upcoming",
+            timeToSpawn: t!.timeToSpawn,
+            my: t!.taken?.myTeam ?? 0,
+            enemy: t!.taken?.enemyTeam ?? 0,
+          }));
+      });
+
+      const activeBuffs = computed(() =>
+        (snapshot.value?.buffs || []).map((b: any) => ({
+          key: `${b.kind}:${b.team}`,
+          icon: b.kind === "baron" ? ICONS.baron : ICONS.elder,
+          label: `${b.team === "myTeam" ? "Our" : "Enemy"} ${
+            b.kind === "baron" ? "Baron" : "Elder"
+          }`,
+          enemy: b.team !== "myTeam",
+          expiresIn: b.expiresIn,
+          holders: b.holders.length,
+        }))
+      );
+
+      // Turrets and inhibitors laid out on a mini-map
+      const structureMap = computed(() => {
+        const st = snapshot.value?.structures;
+        const mapNumber = snapshot.value?.raw?.gameStats?.mapNumber;
+        // Layout is Summoner's Rift (map 11) only
+        if (!st || (mapNumber && mapNumber !== 11)) return null;
+        const now = snapshot.value?.game.time || 0;
+        const nodes = [...st.turrets, ...st.inhibitors].map((s: Structure) => {
+          const [x, y] = structurePos(s);
+          return {
+            id: s.id,
+            x,
+            y,
+            inhibitor: s.kind === "inhibitor",
+            alive: s.alive,
+            color: !s.alive
+              ? "#3a3f52"
+              : s.side === "myTeam"
+              ? "#4da3ff"
+              : "#ff4d4f",
+          };
+        });
+        const respawns = st.inhibitors
+          .filter((s: Structure) => !s.alive && s.respawnsAt !== null)
+          .map((s: Structure) => ({
+            id: s.id,
+            label: `${s.side === "myTeam" ? "Our" : "Enemy"} ${s.lane} inhib`,
+            respawnIn: fmtClock(Math.max(0, (s.respawnsAt as number) - now)),
+          }));
+        const standing = (side: string) =>
+          st.turrets.filter((s: Structure) => s.side === side && s.alive)
+            .length;
+        return {
+          nodes,
+          respawns,
+          myStanding: standing("myTeam"),
+          enemyStanding: standing("enemyTeam"),
+        };
+      });
+
+      // Skill-order grid: one row per ability, one column per skill point
+      const skillGrid = computed(() => {
+        const snap = snapshot.value;
+        if (!snap?.abilities) return null;
+        const order = snap.skillOrder;
+        const keys: Array<"q" | "w" | "e" | "r"> = ["q", "w", "e", "r"];
+        const rows = keys.map((k) => {
+          const a = snap.abilities[k];
+          const cells = Array(18).fill(false);
+          for (const h of order?.history || []) {
+            if (h.ability === k && h.point >= 1 && h.point <= 18)
+              cells[h.point - 1] = true;
+          }
+          return {
+            key: k.toUpperCase(),
+            name: a?.name || k.toUpperCase(),
+            level: a?.level ?? 0,
+            cooldown:
+              typeof a?.cooldownSec === "number" ? `${a.cooldownSec}s` : "",
+            cells,
+          };
+        });
+        const untracked = order
+          ? keys.reduce((sum, k) => sum + (order.baseline[k] || 0), 0)
+          : 0;
+        return { rows, untracked };
+      });
+
+      // Remaining cooldown ("m:ss") of a marked enemy spell, or "" when up
+      function spellCd(player: string, slot: "d" | "f"): string {
+        const snap = snapshot.value;
+        const cd = (snap?.spellCooldowns || []).find(
+          (c: any) => c.player === player && c.slot === slot
+        );
+        if (!cd || !snap) return "";
+        const left = cd.readyAt - snap.game.time;
+        return left > 0 ? fmtClock(left) : "";
+      }
+
+      // Estimated item gold per team and per player (Scoreboard)
+      const itemGold = computed(() => {
+        const timeline = snapshot.value?.itemTimeline;
+        if (!timeline) return null;
+        const diff = timeline.teamGold.myTeam - timeline.teamGold.enemyTeam;
+        const byPlayer: Record<string, string> = {};
+        for (const name of Object.keys(timeline.playerGold))
+          byPlayer[name] = fmtGold(timeline.playerGold[name]);
+        return {
+          my: fmtGold(timeline.teamGold.myTeam),
+          enemy: fmtGold(timeline.teamGold.enemyTeam),
+          diff: fmtGold(diff, true),
+          ahead: diff >= 0,
+          byPlayer,
+        };
+      });
+
+      // Gold-lead graph: team gold difference over the match in a 200×60
+      // box, green above the zero line (we lead) and red below
+      const goldGraph = computed(() => {
+        const samples = snapshot.value?.goldHistory || [];
+        if (samples.length < 2) return null;
+        const endTime = Math.max(60, samples[samples.length - 1].gameTime);
+        const maxAbs = Math.max(
+          1000,
+          ...samples.map((p: GoldSample) => Math.abs(p.diff))
+        );
+        const pts: Array<{ x: number; y: number }> = samples.map(
+          (p: GoldSample) => ({
+            x: (p.gameTime / endTime) * 200,
+            y: 30 - (p.diff / maxAbs) * 28,
+          })
+        );
+        const line = (clamp: (y: number) => number) =>
+          pts
+            .map((p) => `${p.x.toFixed(1)},${clamp(p.y).toFixed(1)}`)
+            .join(" ");
+        // Closed along the zero line so the fill sits between it and the curve
+        const area = (clamp: (y: number) => number) => {
+          const first = pts[0].x.toFixed(1);
+          const lastX = pts[pts.length - 1].x.toFixed(1);
+          return `${first},30 ${line(clamp)} ${lastX},30`;
+        };
+        const ticks: Array<{ x: number; label: string }> = [];
+        for (let m = 5; m * 60 < endTime; m += 5)
+          ticks.push({ x: ((m * 60) / endTime) * 200, label: `${m}` });
+        const last = samples[samples.length - 1];
+        return {
+          line: line((y) => y),
+          lead: area((y) => Math.min(y, 30)),
+          deficit: area((y) => Math.max(y, 30)),
+          ticks,
+          scale: fmtGold(maxAbs),
+          current: fmtGold(last.diff, true),
+          ahead: last.diff >= 0,
+          my: fmtGold(last.myTeam),
+          enemy: fmtGold(last.enemyTeam),
+        };
+      });
+
+      // CS-vs-target sparkline for the Scores card (120×30 box)
+      const csSpark = computed(() => {
+        const bench = snapshot.value?.csBenchmark;
+        if (!bench) return null;
+        const samples = snapshot.value?.csHistory || [];
+        const endTime = Math.max(60, snapshot.value?.game.time || 0);
+        const top = Math.max(
+          10,
+          ...samples.map((p: { cs: number; target: number }) =>
+            Math.max(p.cs, p.target)
+          )
+        );
+        const line = (key: "cs" | "target") =>
+          samples
+            .map(
+              (p: any) =>
+                `${((p.gameTime / endTime) * 120).toFixed(1)},${(
+                  29 -
+                  (p[key] / top) * 28
+                ).toFixed(1)}`
+            )
+            .join(" ");
+        return {
+          role: bench.role,
+          cs: bench.cs,
+          target: bench.target,
+          max: bench.max,
+          diff: (bench.diff > 0 ? "+" : "") + bench.diff,
+          ahead: bench.diff >= 0,
+          csLine: samples.length > 1 ? line("cs") : "",
+          targetLine: samples.length > 1 ? line("target") : "",
+        };
+      });
+
+      async function markSpell(player: string, slot: "d" | "f") {
+        if (activeTab.value === "replays" || !player) return;
+        try {
+          await (window as any).api.markSpellUsed(player, slot);
+        } catch (e) {
+          console.error("Failed to mark spell:", e);
+        }
+      }
+
       // Raw dump for teams (will be loaded separately)
       const rawDump = ref(null as any);
-      const teams = ref({
+      const liveTeams = ref({
         my: [] as Array<any>,
         enemy: [] as Array<any>,
       });
+      const replayTeams = ref({
+        my: [] as Array<any>,
+        enemy: [] as Array<any>,
+      });
+      const teams = computed(() =>
+        activeTab.value === "replays" ? replayTeams.value : liveTeams.value
+      );
+
+      // Latest build per target: a build that finishes after a newer one
+      // started (e.g. while dragging the replay slider) drops its result
+      const teamBuilds = new Map<typeof liveTeams, number>();
+      function startTeamBuild(target: typeof liveTeams): () => boolean {
+        const build = (teamBuilds.get(target) || 0) + 1;
+        teamBuilds.set(target, build);
+        return () => teamBuilds.get(target) === build;
+      }
 
-      async function buildTeams(dump: any) {
+      async function buildTeams(
+        players: Array<any>,
+        snap: Snapshot | null,
+        target: typeof liveTeams
+      ) {
+        const isCurrent = startTeamBuild(target);
         try {
-          const players = dump?.endpoints?.allgamedata?.data?.allPlayers || [];
           if (!players.length) {
-            teams.value.my = [];
-            teams.value.enemy = [];
+            target.value.my = [];
+            target.value.enemy = [];
             return;
           }
-          const myTeam = snapshot.value?.player.team || players[0]?.team;
+          const myTeam = snap?.player.team || players[0]?.team;
           // Get version from snapshot or fetch it from Data Dragon
-          let version = snapshot.value?.assets?.version;
+          let version = snap?.assets?.version;
           if (!version) {
             try {
               const res = await fetch(
                 "https://ddragon.leagueoflegends.com/api/versions.json"
               );
               const versions = await res.json();
-              version = versions[0];
+              version = versions[0] as string;
             } catch {
               console.error("Failed to get version for teams");
               return;
@@ -487,6 +1114,7 @@
               champIndex[cName] ||
               (cName ? cName.replace(/\s|[^A-Za-z]/g, "") : "");
             return {
+              key: p.riotIdGameName || p.summonerName || "",
               name: p.riotId || p.summonerName,
               team: p.team,
               champion: cName,
@@ -534,12 +1162,14 @@
             if (p.team === myTeam) mine.push(ep);
             else enemy.push(ep);
           }
-          teams.value.my = mine;
-          teams.value.enemy = enemy;
+          if (!isCurrent()) return;
+          target.value.my = mine;
+          target.value.enemy = enemy;
         } catch (e) {
           console.error("Failed to build teams:", e);
-          teams.value.my = [];
-          teams.value.enemy = [];
+          if (!isCurrent()) return;
+          target.value.my = [];
+          target.value.enemy = [];
         }
       }
 
@@ -551,15 +1181,33 @@
             return;
           }
           rawDump.value = dump;
-          await buildTeams(dump);
+          await buildTeams(
+            dump?.endpoints?.allgamedata?.data?.allPlayers || [],
+            liveSnapshot.value,
+            liveTeams
+          );
         } catch (e) {
           console.error("Failed to load raw dump:", e);
-          teams.value.my = [];
-          teams.value.enemy = [];
+          liveTeams.value.my = [];
+          liveTeams.value.enemy = [];
         }
       }
 
+      // Rebuild the replay scoreboard whenever the slider lands on a new frame
+      watch(replayFrame, (frame: LoadedMatch["frames"][number] | null) => {
+        if (!frame) return;
+        void buildTeams(
+          frame.snapshot.raw?.players || [],
+          frame.snapshot,
+          replayTeams
+        );
+      });
+      watch(activeTab, (tab: string) => {
+        if (tab === "replays") void refreshMatches();
+      });
+
       return {
+        icons: ICONS,
         snapshot,
         pollMs,
         isDev,
@@ -569,6 +1217,19 @@
         toasts,
         notifications,
         applyPoll,
+        recordSessions,
+        applyRecording,
+        spellHotkeys,
+        spellHotkeyFailures,
+        applySpellHotkeys,
+        soundMuted,
+        soundVolume,
+        applySound,
+        connection,
+        connectionInfo,
+        obsOverlayUrl,
+        obsUrlCopied,
+        copyObsUrl,
         openRaw,
         appVersion,
         toggleOverlay: async () => {
@@ -581,6 +1242,16 @@
         hasData,
         waveNotifs,
         macroNotifs,
+        dragon,
+        epicTimers,
+        activeBuffs,
+        structureMap,
+        spellCd,
+        skillGrid,
+        markSpell,
+        itemGold,
+        goldGraph,
+        csSpark,
         regularItems,
         trinketItem,
         spellIconUrls,
@@ -588,6 +1259,15 @@
         insights,
         teams,
         loadRawDump,
+        matches,
+        replay,
+        replayTime,
+        replayDuration,
+        replayLoading,
+        replayTipSource,
+        openMatch,
+        closeReplay,
+        refreshMatches,
       };
     },
   }).mount("#app");
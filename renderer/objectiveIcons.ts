@@ -0,0 +1,12 @@
+// Objective icons shared by the dashboard and the OBS overlay, so both show
+// the same glyphs. Loaded before the page script; read from window.
+(() => {
+  (window as any).OBJECTIVE_ICONS = {
+    dragon: "🐉",
+    elder: "🐲",
+    grubs: "🪱",
+    herald: "🗿",
+    atakhan: "😈",
+    baron: "👑",
+  } as Record<string, string>;
+})();
@@ -0,0 +1,193 @@
+// Browser-source version of the overlay for OBS, served by the local API at
+// /obs and fed by its WebSocket. Theme with query parameters:
+//   token     API token (required)
+//   position  top-right (default), top-left, bottom-right, bottom-left
+//   scale     size multiplier, e.g. 1.5
+//   accent    border color, hex without '#' (e.g. 34d399)
+//   text      text color, hex
+//   bg        panel color, hex; opacity sets its alpha (default 0.72)
+//   show      sections to show: toasts,timers,stats (default all)
+(() => {
+  const { createApp, ref, computed, onMounted } = (window as any).Vue;
+  // Same glyphs as the dashboard (objectiveIcons.ts)
+  const ICONS: Record<string, string> = (window as any).OBJECTIVE_ICONS;
+  type Toast = {
+    id: string;
+    title: string;
+    body?: string;
+    icon?: string;
+    severity: "info" | "warning" | "critical";
+    until: number;
+  };
+
+  const params = new URLSearchParams(location.search);
+  const POSITIONS = ["top-right", "top-left", "bottom-right", "bottom-left"];
+  const hex = (name: string) => {
+    const v = (params.get(name) || "").replace(/^#/, "");
+    return /^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(v) ? `#${v}` : null;
+  };
+
+  function applyTheme() {
+    const root = document.documentElement.style;
+    const accent = hex("accent");
+    const text = hex("text");
+    if (accent) root.setProperty("--accent", accent);
+    if (text) root.setProperty("--text", text);
+    const scale = Number(params.get("scale"));
+    if (scale > 0 && scale <= 5) root.setProperty("--scale", String(scale));
+    const bg = hex("bg") || "#0f1118";
+    const opacity = params.has("opacity")
+      ? Math.max(0, Math.min(1, Number(params.get("opacity")) || 0))
+      : 0.72;
+    // Expand #abc to #aabbcc, then add the alpha byte
+    const full =
+      bg.length === 4 ? `#${[...bg.slice(1)].map((c) => c + c).join("")}` : bg;
+    const alpha = Math.round(opacity * 255)
+      .toString(16)
+      .padStart(2, "0");
+    root.setProperty("--panel", `${full}${alpha}`);
+  }
+
+  function clock(seconds: number): string {
+    const s = Math.max(0, Math.ceil(seconds));
+    return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, "0")}`;
+  }
+
+  createApp({
+    setup() {
+      applyTheme();
+      const position = POSITIONS.includes(params.get("position") || "")
+        ? params.get("position")
+        : "top-right";
+      const sections = (params.get("show") || "toasts,timers,stats")
+        .split(",")
+        .map((s) => s.trim());
+      const show = {
+        toasts: sections.includes("toasts"),
+        timers: sections.includes("timers"),
+        stats: sections.includes("stats"),
+      };
+      const toasts = ref([] as Array<Toast>);
+      const snapshot = ref(null as any);
+      const snapReceivedAt = ref(0);
+      const nowMs = ref(Date.now());
+      const status = ref("Connecting…");
+      const gameTimeNow = () =>
+        (Number(snapshot.value?.game?.time) || 0) +
+        (nowMs.value - snapReceivedAt.value) / 1000;
+
+      const stats = computed(() => {
+        const s = snapshot.value;
+        if (!s || s.error) return null;
+        return {
+          champion: s.player?.champion || "",
+          clock: clock(gameTimeNow()),
+          kda: `${s.stats?.kills ?? 0}/${s.stats?.deaths ?? 0}/${
+            s.stats?.assists ?? 0
+          }`,
+          cs: s.stats?.cs ?? 0,
+          csPerMin: s.derived?.csPerMin ?? 0,
+          teamKills: s.team?.kills ?? 0,
+          enemyKills: s.team?.enemyKills ?? 0,
+        };
+      });
+
+      // Next spawns, advanced locally between snapshots; taken/gone ones hide
+      const timers = computed(() => {
+        const s = snapshot.value;
+        if (!s || s.error) return [];
+        const now = gameTimeNow();
+        const o = s.objectives || {};
+        const list = [
+          {
+            key: "dragon",
+            icon: ICONS.dragon,
+            label: o.dragon?.nextIsElder ? "Elder" : "Dragon",
+            timer: o.dragon,
+          },
+          { key: "grubs", icon: ICONS.grubs, label: "Grubs", timer: o.grubs },
+          { key: "herald", icon: ICONS.herald, label: "Herald", timer: o.herald },
+          { key: "atakhan", icon: ICONS.atakhan, label: "Atakhan", timer: o.atakhan },
+          { key: "baron", icon: ICONS.baron, label: "Baron", timer: o.baron },
+        ];
+        return list
+          .filter((t) => t.timer && t.timer.status !== "gone")
+          .filter((t) => Number(t.timer.nextSpawnTime) > 0)
+          .map((t) => {
+            const left = Number(t.timer.nextSpawnTime) - now;
+            return {
+              key: t.key,
+              icon: t.icon,
+              label: t.label,
+              up: t.timer.status === "alive" || left <= 0,
+              clock: clock(left),
+            };
+          });
+      });
+
+      function onTip(entry: any) {
+        const tip = entry?.tip;
+        // Only tips meant for the overlay, with the overlay channel's text
+        const d = (tip?.channels || []).find((c: any) => c.type === "overlay");
+        if (!d) return;
+        const stickyMs =
+          typeof d.stickyMs === "number" && d.stickyMs > 0 ? d.stickyMs : 4000;
+        toasts.value.push({
+          id: String(tip.id || Math.random()),
+          title: String(d.title || "").trim() || "Notification",
+          body: d.body ? String(d.body).trim() : undefined,
+          icon: d.icon ? String(d.icon) : undefined,
+          severity:
+            d.severity === "warning" || d.severity === "critical"
+              ? d.severity
+              : "info",
+          until: Date.now() + stickyMs,
+        });
+      }
+
+      let retryMs = 1000;
+      function connect() {
+        const token = params.get("token") || "";
+        const scheme = location.protocol === "https:" ? "wss" : "ws";
+        const ws = new WebSocket(
+          `${scheme}://${location.host}/ws?token=${encodeURIComponent(token)}`
+        );
+        ws.onopen = () => {
+          retryMs = 1000;
+          status.value = "";
+        };
+        ws.onmessage = (e: MessageEvent) => {
+          let msg: any;
+          try {
+            msg = JSON.parse(String(e.data));
+          } catch {
+            return;
+          }
+          if (msg?.type === "snapshot") {
+            snapshot.value = msg.data;
+            snapReceivedAt.value = Date.now();
+          } else if (msg?.type === "tip") {
+            onTip(msg.data);
+          }
+        };
+        ws.onclose = () => {
+          snapshot.value = null;
+          status.value = token
+            ? "Pewpew disconnected, retrying…"
+            : "Add ?token=<apiToken> to the URL";
+          // Back off up to 10s while the app is closed
+          setTimeout(connect, retryMs);
+          retryMs = Math.min(10000, retryMs * 2);
+        };
+      }
+
+      onMounted(() => connect());
+      setInterval(() => {
+        const now = Date.now();
+        nowMs.value = now;
+        toasts.value = toasts.value.filter((t: Toast) => t.until > now);
+      }, 1000);
+      return { position, show, toasts, stats, timers, status };
+    },
+  }).mount("#app");
+})();
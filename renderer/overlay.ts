@@ -1,5 +1,5 @@
 (() => {
-  const { createApp, ref, onMounted } = (window as any).Vue;
+  const { createApp, ref, computed, onMounted } = (window as any).Vue;
   createApp({
     setup() {
       type Toast = {
@@ -11,7 +11,78 @@
         until: number;
       };
       const toasts = ref([] as Array<Toast>);
-      onMounted(() => {
+      type DeadEnemy = { name: string; champion: string; respawnAt: number };
+      // Game clock of the last snapshot, advanced locally between polls
+      const deadEnemies = ref([] as Array<DeadEnemy>);
+      type SpellCooldown = {
+        player: string;
+        champion: string;
+        slot: string;
+        spell: string;
+        readyAt: number;
+      };
+      const spellCooldowns = ref([] as Array<SpellCooldown>);
+      const connectionState = ref("inGame");
+      const INDICATOR_LABELS: Record<string, string> = {
+        paused: "⏸ Paused",
+        loading: "Loading…",
+        connectionLost: "Connection lost",
+      };
+      const indicator = computed(
+        () => INDICATOR_LABELS[connectionState.value] || "Pewpew ON"
+      );
+      const snapGameTime = ref(0);
+      const snapReceivedAt = ref(0);
+      const nowMs = ref(Date.now());
+      const gameTimeNow = () =>
+        snapGameTime.value + (nowMs.value - snapReceivedAt.value) / 1000;
+      const enemiesDown = computed(() => {
+        const gameTime = gameTimeNow();
+        return deadEnemies.value
+          .map((d: DeadEnemy) => ({
+            key: d.name || d.champion,
+            champion: d.champion,
+            seconds: Math.ceil(d.respawnAt - gameTime),
+          }))
+          .filter((d: { seconds: number }) => d.seconds > 0);
+      });
+      const spellsDown = computed(() => {
+        const gameTime = gameTimeNow();
+        return spellCooldowns.value
+          .map((c: SpellCooldown) => {
+            const left = Math.ceil(c.readyAt - gameTime);
+            return {
+              key: `${c.player}:${c.slot}`,
+              label: `${c.champion} ${c.spell}`,
+              left,
+              clock: `${Math.floor(left / 60)}:${(left % 60)
+                .toString()
+                .padStart(2, "0")}`,
+            };
+          })
+          .filter((c: { left: number }) => c.left > 0);
+      });
+      onMounted(async () => {
+        if ((window as any).api?.onConnectionState) {
+          const status = await (window as any).api.getConnectionState();
+          connectionState.value = status?.state || "inGame";
+          (window as any).api.onConnectionState((s: { state: string }) => {
+            connectionState.value = s.state;
+          });
+        }
+        if ((window as any).api?.onSnapshot) {
+          (window as any).api.onSnapshot((snap: any) => {
+            if (!snap || snap.error) {
+              deadEnemies.value = [];
+              spellCooldowns.value = [];
+              return;
+            }
+            snapGameTime.value = Number(snap.game?.time) || 0;
+            snapReceivedAt.value = Date.now();
+            deadEnemies.value = snap.deaths?.enemies || [];
+            spellCooldowns.value = snap.spellCooldowns || [];
+          });
+        }
         if ((window as any).api?.onTip) {
           (window as any).api.onTip((tip: any) => {
             const stickyMs =
@@ -44,9 +115,16 @@
       });
       setInterval(() => {
         const now = Date.now();
+        nowMs.value = now;
         toasts.value = toasts.value.filter((t: Toast) => t.until > now);
       }, 1000);
-      return { toasts };
+      return {
+        toasts,
+        enemiesDown,
+        spellsDown,
+        connectionState,
+        indicator,
+      };
     },
   }).mount("#app");
 })();
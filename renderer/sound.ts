@@ -0,0 +1,126 @@
+// Tip sound cues, shared by the main window and the overlay. Bundled cues are
+// synthesized with Web Audio (no asset files); custom cues play a file URL
+// resolved by the main process. Only the newest cue plays at full volume:
+// older ones still ringing are ducked, and a burst of tips is capped so it
+// doesn't stack into noise.
+(() => {
+  type SoundCue = { cue?: string; url?: string; volume?: number };
+  type Voice = {
+    base: number; // volume when not ducked
+    setGain(g: number): void;
+    stop(): void;
+  };
+
+  const DUCK_FACTOR = 0.3; // volume of older cues while a newer one plays
+  const MAX_VOICES = 2;
+  const REPEAT_WINDOW_MS = 1500; // the same cue again this soon is dropped
+
+  // [frequency Hz, start s, length s] per note
+  const CUES: Record<string, Array<[number, number, number]>> = {
+    info: [[880, 0, 0.12]],
+    warning: [
+      [660, 0, 0.12],
+      [880, 0.14, 0.14],
+    ],
+    critical: [
+      [988, 0, 0.1],
+      [740, 0.12, 0.1],
+      [988, 0.24, 0.1],
+      [740, 0.36, 0.16],
+    ],
+  };
+
+  let ctx: AudioContext | null = null;
+  const voices: Voice[] = [];
+  const lastPlayed = new Map<string, number>();
+
+  function audio(): AudioContext {
+    if (!ctx) ctx = new AudioContext();
+    if (ctx.state === "suspended") void ctx.resume();
+    return ctx;
+  }
+
+  // Newest voice at full volume, everything older ducked
+  function mix() {
+    voices.forEach((v, i) =>
+      v.setGain(i === voices.length - 1 ? v.base : v.base * DUCK_FACTOR)
+    );
+  }
+
+  function finished(voice: Voice) {
+    const i = voices.indexOf(voice);
+    if (i < 0) return;
+    voices.splice(i, 1);
+    mix();
+  }
+
+  function synth(
+    notes: Array<[number, number, number]>,
+    base: number
+  ): Voice {
+    const ac = audio();
+    const gain = ac.createGain();
+    gain.connect(ac.destination);
+    const start = ac.currentTime;
+    let end = start;
+    notes.forEach(([freq, at, len]) => {
+      const osc = ac.createOscillator();
+      const env = ac.createGain();
+      osc.type = "sine";
+      osc.frequency.value = freq;
+      // Short attack/release so notes don't click
+      env.gain.setValueAtTime(0, start + at);
+      env.gain.linearRampToValueAtTime(1, start + at + 0.01);
+      env.gain.exponentialRampToValueAtTime(0.001, start + at + len);
+      osc.connect(env).connect(gain);
+      osc.start(start + at);
+      osc.stop(start + at + len + 0.02);
+      end = Math.max(end, start + at + len + 0.02);
+    });
+    const voice: Voice = {
+      base,
+      setGain: (g) => gain.gain.setTargetAtTime(g, ac.currentTime, 0.02),
+      stop: () => gain.disconnect(),
+    };
+    gain.gain.value = base;
+    setTimeout(() => finished(voice), (end - start) * 1000);
+    return voice;
+  }
+
+  function file(url: string, base: number): Voice {
+    const el = new Audio(url);
+    const voice: Voice = {
+      base,
+      setGain: (g) => {
+        el.volume = Math.max(0, Math.min(1, g));
+      },
+      stop: () => el.pause(),
+    };
+    el.volume = base;
+    el.addEventListener("ended", () => finished(voice));
+    el.addEventListener("error", () => finished(voice));
+    el.play().catch(() => finished(voice));
+    return voice;
+  }
+
+  function play(sound: SoundCue) {
+    const base = Math.max(0, Math.min(1, sound?.volume ?? 1));
+    const key = sound?.url || String(sound?.cue || "info");
+    if (base <= 0) return;
+    const now = Date.now();
+    if (now - (lastPlayed.get(key) ?? 0) < REPEAT_WINDOW_MS) return;
+    lastPlayed.set(key, now);
+    try {
+      const voice = sound.url
+        ? file(sound.url, base)
+        : synth(CUES[key] || CUES.info, base);
+      voices.push(voice);
+      while (voices.length > MAX_VOICES) voices.shift()!.stop();
+      mix();
+    } catch {
+      // Audio unavailable; tips still show
+    }
+  }
+
+  (window as any).api?.onPlaySound?.((sound: SoundCue) => play(sound));
+})();
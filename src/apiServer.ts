@@ -0,0 +1,234 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import type { Duplex } from "stream";
+import { EventEmitter } from "events";
+import type { AggregatedSnapshot } from "./riotClient";
+import type { TipPayload } from "./tipsEngine";
+import type { ConnectionStatus } from "./connectionState";
+import { acceptWebSocket, WebSocketClient } from "./webSocket";
+
+// Opt-in local API for tools outside Electron (stream widgets, bots):
+//
+//   GET /api/snapshot     latest AggregatedSnapshot
+//   GET /api/objectives   objective timers and team buffs
+//   GET /api/tips         tips fired this match (?since=<game seconds>)
+//   WS  /ws               pushes {type: "snapshot" | "tip" | "state", data}
+//
+// Every request needs the token, as `Authorization: Bearer <token>` or
+// `?token=<token>` (browsers can't set headers on a WebSocket). Static pages
+// registered in `files` are public; they read the token from their own URL.
+
+export type ApiServerOptions = {
+  host?: string;
+  port?: number;
+  token: string;
+  files?: Record<string, string>; // URL path → file on disk
+};
+
+export type ApiTip = {
+  gameTime: number | null;
+  wallClock: number;
+  tip: TipPayload;
+};
+
+export type ApiMessage =
+  | { type: "snapshot"; data: unknown }
+  | { type: "tip"; data: ApiTip }
+  | { type: "state"; data: ConnectionStatus };
+
+export const DEFAULT_API_PORT = 2998;
+const MAX_TIPS = 200;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+};
+
+/** Random token for the apiToken setting. */
+export function createApiToken(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+export class ApiServer extends EventEmitter {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly token: string;
+  private readonly files: Map<string, string>;
+  private server: http.Server | null = null;
+  private clients = new Set<WebSocketClient>();
+  private latest: AggregatedSnapshot | null = null;
+  private tips: ApiTip[] = [];
+  private state: ConnectionStatus | null = null;
+
+  constructor(options: ApiServerOptions) {
+    super();
+    this.host = options.host || "127.0.0.1";
+    this.port = options.port ?? DEFAULT_API_PORT;
+    this.token = options.token;
+    this.files = new Map(Object.entries(options.files || {}));
+  }
+
+  start(): Promise<{ host: string; port: number }> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    server.on("upgrade", (req, socket, head) =>
+      this.upgrade(req, socket, head)
+    );
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject);
+        const addr = server.address();
+        const port = addr && typeof addr === "object" ? addr.port : this.port;
+        this.emit("listening", { host: this.host, port });
+        resolve({ host: this.host, port });
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    for (const client of this.clients) client.close(1001);
+    this.clients.clear();
+    if (!server) return Promise.resolve();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  /** Store the latest snapshot and push it to WebSocket clients. */
+  publishSnapshot(snapshot: AggregatedSnapshot) {
+    // A new match (or a replay rewinding) starts a fresh tip history
+    if (this.latest && snapshot.game.time + 5 < this.latest.game.time)
+      this.tips = [];
+    this.latest = snapshot;
+    this.broadcast({ type: "snapshot", data: snapshot });
+  }
+
+  /** Push a poll error ({ error, message }) without replacing the snapshot. */
+  publishError(message: string) {
+    this.broadcast({
+      type: "snapshot",
+      data: { ...(this.latest ?? {}), error: true, message },
+    });
+  }
+
+  /** Push a connection state change (see connectionState.ts). */
+  publishState(status: ConnectionStatus) {
+    this.state = status;
+    this.broadcast({ type: "state", data: status });
+  }
+
+  publishTip(tip: TipPayload, gameTime: number | undefined) {
+    const entry: ApiTip = {
+      gameTime: gameTime ?? null,
+      wallClock: Date.now(),
+      tip,
+    };
+    this.tips.push(entry);
+    if (this.tips.length > MAX_TIPS) this.tips.shift();
+    this.broadcast({ type: "tip", data: entry });
+  }
+
+  private broadcast(message: ApiMessage) {
+    if (!this.clients.size) return;
+    const text = JSON.stringify(message);
+    for (const client of this.clients) client.send(text);
+  }
+
+  private authorized(req: http.IncomingMessage, url: URL): boolean {
+    const header = String(req.headers.authorization || "");
+    const given = header.startsWith("Bearer ")
+      ? header.slice(7).trim()
+      : url.searchParams.get("token") || "";
+    const a = Buffer.from(given);
+    const b = Buffer.from(this.token);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private upgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer) {
+    const url = new URL(req.url || "/", `http://${this.host}`);
+    if (url.pathname !== "/ws" || !this.authorized(req, url)) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      return;
+    }
+    const client = acceptWebSocket(req, socket, head);
+    if (!client) return;
+    this.clients.add(client);
+    client.on("close", () => this.clients.delete(client));
+    // New clients get the current state right away
+    if (this.state)
+      client.send(JSON.stringify({ type: "state", data: this.state }));
+    if (this.latest)
+      client.send(JSON.stringify({ type: "snapshot", data: this.latest }));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || "/", `http://${this.host}`);
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method !== "GET") {
+      send(405, { error: "Only GET is supported" });
+      return;
+    }
+    const file = this.files.get(url.pathname);
+    if (file) {
+      this.serveFile(file, res);
+      return;
+    }
+    if (!this.authorized(req, url)) {
+      send(401, { error: "Missing or wrong token" });
+      return;
+    }
+    const snap = this.latest;
+    switch (url.pathname) {
+      case "/api/snapshot":
+        if (snap) send(200, snap);
+        else send(404, { error: "No game data yet" });
+        return;
+      case "/api/objectives":
+        if (snap)
+          send(200, {
+            gameTime: snap.game.time,
+            objectives: snap.objectives,
+            buffs: snap.buffs,
+          });
+        else send(404, { error: "No game data yet" });
+        return;
+      case "/api/tips": {
+        const since = Number(url.searchParams.get("since"));
+        send(
+          200,
+          Number.isFinite(since) && url.searchParams.has("since")
+            ? this.tips.filter((t) => (t.gameTime ?? 0) >= since)
+            : this.tips
+        );
+        return;
+      }
+    }
+    send(404, { error: `Unknown endpoint ${url.pathname}` });
+  }
+
+  private serveFile(file: string, res: http.ServerResponse) {
+    fs.readFile(file, (err, data) => {
+      if (err) {
+        res.writeHead(404, { "Content-Type": "text/plain" });
+        res.end("Not found");
+        return;
+      }
+      res.writeHead(200, {
+        "Content-Type":
+          CONTENT_TYPES[path.extname(file)] || "application/octet-stream",
+        "Cache-Control": "no-store",
+      });
+      res.end(data);
+    });
+  }
+}
@@ -0,0 +1,125 @@
+// Lifecycle of the Live Client connection, driven by poll results:
+//
+//   idle              not polling yet (or stopped)
+//   clientNotRunning  nothing answers on the Live Client port
+//   loading           the API answers but the game hasn't started (loading
+//                     screen: no game data, game time ~0 or no players yet)
+//   inGame            game data with the clock running
+//   paused            game data, but the clock hasn't moved for a while
+//   postGame          a GameEnd event was seen; lasts until the next game loads,
+//                     or until the API has failed for LOST_FOR_MS (then
+//                     clientNotRunning, or loading if it answers without data)
+//   connectionLost    the API stopped answering mid-game without a GameEnd;
+//                     becomes clientNotRunning if it doesn't come back
+
+export type ConnectionState =
+  | "idle"
+  | "clientNotRunning"
+  | "loading"
+  | "inGame"
+  | "paused"
+  | "postGame"
+  | "connectionLost";
+
+export type ConnectionStatus = {
+  state: ConnectionState;
+  since: number; // wall clock (ms) the state was entered
+  message?: string; // last poll error, if any
+};
+
+// Why a poll failed: nothing listening, no answer in time, or an answer
+// without game data
+export type PollFailure = "unreachable" | "timeout" | "noData";
+
+const LOADING_MAX_GAME_TIME = 1; // game seconds
+const PAUSED_AFTER_MS = 2500; // clock frozen this long while polls succeed
+const LOST_FOR_MS = 30000; // then assume the game (or end screen) closed
+
+export class ConnectionTracker {
+  private status: ConnectionStatus = { state: "idle", since: Date.now() };
+  private lastGameTime = -1;
+  private lastAdvanceAt = 0;
+  private failingSince: number | null = null;
+
+  get current(): ConnectionStatus {
+    return this.status;
+  }
+
+  /** True while no game is up, when polling can back off. */
+  get waiting(): boolean {
+    const { state } = this.status;
+    return state === "clientNotRunning" || state === "postGame";
+  }
+
+  reset(now = Date.now()): boolean {
+    this.lastGameTime = -1;
+    this.failingSince = null;
+    return this.set("idle", now);
+  }
+
+  /** A poll returned game data. Returns true when the state changed. */
+  onData(
+    gameTime: number,
+    playerCount: number,
+    gameEnded: boolean,
+    now = Date.now()
+  ): boolean {
+    this.failingSince = null;
+    if (gameEnded) return this.set("postGame", now);
+    if (!playerCount || gameTime < LOADING_MAX_GAME_TIME) {
+      this.lastGameTime = -1;
+      return this.set("loading", now);
+    }
+    // A clock that moved (either way: a new game restarts it) is running
+    if (gameTime !== this.lastGameTime) {
+      this.lastGameTime = gameTime;
+      this.lastAdvanceAt = now;
+      return this.set("inGame", now);
+    }
+    if (now - this.lastAdvanceAt >= PAUSED_AFTER_MS)
+      return this.set("paused", now);
+    return false;
+  }
+
+  /** A poll failed. Returns true when the state changed. */
+  onError(failure: PollFailure, message: string, now = Date.now()): boolean {
+    const { state } = this.status;
+    let next: ConnectionState;
+    if (state === "postGame") {
+      // The end-of-game screen may answer without data for a while
+      this.failingSince = this.failingSince ?? now;
+      next =
+        now - this.failingSince < LOST_FOR_MS
+          ? "postGame"
+          : failure === "noData"
+          ? "loading"
+          : "clientNotRunning";
+    } else if (failure === "noData") {
+      // The API is up: the loading screen
+      this.failingSince = null;
+      next = "loading";
+    } else if (
+      state === "inGame" ||
+      state === "paused" ||
+      state === "loading" ||
+      state === "connectionLost"
+    ) {
+      this.failingSince = this.failingSince ?? now;
+      next =
+        now - this.failingSince < LOST_FOR_MS
+          ? "connectionLost"
+          : "clientNotRunning";
+    } else {
+      next = "clientNotRunning";
+    }
+    const changed = this.set(next, now);
+    this.status.message = message;
+    return changed;
+  }
+
+  private set(state: ConnectionState, now: number): boolean {
+    if (state === this.status.state) return false;
+    this.status = { state, since: now };
+    return true;
+  }
+}
@@ -0,0 +1,116 @@
+import { maxLaneCsAt } from "./minionWaves";
+
+// Farming benchmark: the player's CS against a per-role target curve and the
+// wave-based maximum. Targets come from the settings file (csTargets), keyed
+// by role, as CS totals at given game minutes.
+
+export type CsRole = "top" | "jungle" | "mid" | "bot" | "support";
+
+export type CsTarget = { minute: number; cs: number };
+
+export type CsBenchmark = {
+  role: CsRole;
+  targets: CsTarget[]; // checkpoints for the role, by minute
+  cs: number;
+  target: number; // target curve at the current game time
+  max: number | null; // lane minions offered so far; null for junglers
+  diff: number; // cs − target
+};
+
+export type CsSample = { gameTime: number; cs: number; target: number };
+
+export const DEFAULT_CS_TARGETS: Record<CsRole, CsTarget[]> = {
+  top: [
+    { minute: 10, cs: 80 },
+    { minute: 20, cs: 160 },
+    { minute: 30, cs: 240 },
+  ],
+  jungle: [
+    { minute: 10, cs: 65 },
+    { minute: 20, cs: 140 },
+    { minute: 30, cs: 210 },
+  ],
+  mid: [
+    { minute: 10, cs: 80 },
+    { minute: 20, cs: 160 },
+    { minute: 30, cs: 240 },
+  ],
+  bot: [
+    { minute: 10, cs: 80 },
+    { minute: 20, cs: 160 },
+    { minute: 30, cs: 240 },
+  ],
+  support: [
+    { minute: 10, cs: 10 },
+    { minute: 20, cs: 30 },
+    { minute: 30, cs: 50 },
+  ],
+};
+
+// Live Client `position` values
+const POSITION_ROLES: Record<string, CsRole> = {
+  TOP: "top",
+  JUNGLE: "jungle",
+  MIDDLE: "mid",
+  BOTTOM: "bot",
+  UTILITY: "support",
+};
+
+let csTargets: Record<CsRole, CsTarget[]> = DEFAULT_CS_TARGETS;
+let roleOverride: CsRole | null = null;
+
+/** Apply the csTargets / csRole settings; missing roles keep the defaults. */
+export function configureCsTargets(
+  targets: Partial<Record<CsRole, CsTarget[]>> | undefined,
+  role: CsRole | "auto" | undefined
+) {
+  csTargets = { ...DEFAULT_CS_TARGETS };
+  for (const key of Object.keys(DEFAULT_CS_TARGETS) as CsRole[]) {
+    const list = (targets?.[key] || []).filter(
+      (t) => Number(t?.minute) > 0 && Number(t?.cs) >= 0
+    );
+    if (list.length)
+      csTargets[key] = list.slice().sort((a, b) => a.minute - b.minute);
+  }
+  roleOverride = role && role !== "auto" ? role : null;
+}
+
+/** Role from the settings override, else the player's assigned position. */
+export function resolveCsRole(position: string | undefined): CsRole {
+  return roleOverride ?? POSITION_ROLES[String(position || "")] ?? "mid";
+}
+
+/** Target CS at `gameTimeSec`, linear between checkpoints (from 0 at 0:00). */
+export function targetCsAt(targets: CsTarget[], gameTimeSec: number): number {
+  const minute = gameTimeSec / 60;
+  let prev: CsTarget = { minute: 0, cs: 0 };
+  for (const t of targets) {
+    if (minute <= t.minute) {
+      const f = (minute - prev.minute) / (t.minute - prev.minute);
+      return Math.round(prev.cs + f * (t.cs - prev.cs));
+    }
+    prev = t;
+  }
+  // Past the last checkpoint: keep the last segment's pace
+  const before = targets[targets.length - 2] ?? { minute: 0, cs: 0 };
+  const pace = (prev.cs - before.cs) / (prev.minute - before.minute || 1);
+  return Math.round(prev.cs + (minute - prev.minute) * pace);
+}
+
+export function computeCsBenchmark(
+  gameTimeSec: number,
+  cs: number,
+  position: string | undefined
+): CsBenchmark {
+  const role = resolveCsRole(position);
+  const targets = csTargets[role];
+  const target = targetCsAt(targets, gameTimeSec);
+  return {
+    role,
+    targets,
+    cs,
+    target,
+    max: role === "jungle" ? null : maxLaneCsAt(gameTimeSec),
+    diff: cs - target,
+  };
+}
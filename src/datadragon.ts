@@ -6,6 +6,10 @@ let cachedVersion: string | null = null;
 let lastVersionFetchAt = 0;
 let championNameToId: Map<string, string> | null = null;
 let runeIdToIcon: Map<number, string> | null = null;
+let summonerSpellCooldowns: Map<string, number> | null = null;
+let itemBuildPaths: Map<number, { from: number[]; into: number[] }> | null =
+  null;
+const championSpellCooldowns = new Map<string, number[][]>();
 
 function getJson<T>(url: string): Promise<T> {
   return new Promise((resolve, reject) => {
@@ -144,6 +148,83 @@ export async function ensureRunesIndex(
   }
 }
 
+/** Base cooldown (seconds) per summoner spell key, e.g. SummonerFlash → 300. */
+export async function ensureSummonerSpellIndex(
+  lang = "en_US"
+): Promise<Map<string, number>> {
+  if (summonerSpellCooldowns) return summonerSpellCooldowns;
+  try {
+    type SpellIndex = {
+      data: Record<string, { id: string; cooldown: number[] }>;
+    };
+    const version = await getLatestVersion();
+    const json = await getJson<SpellIndex>(
+      `${CDN_BASE}/cdn/${version}/data/${lang}/summoner.json`
+    );
+    const map = new Map<string, number>();
+    for (const key of Object.keys(json.data)) {
+      const s = json.data[key];
+      if (typeof s.cooldown?.[0] === "number") map.set(s.id, s.cooldown[0]);
+    }
+    summonerSpellCooldowns = map;
+    return summonerSpellCooldowns;
+  } catch (e) {
+    console.error(`[datadragon] Failed to build summoner spell index:`, e);
+    // Not cached, so the next call retries
+    return new Map<string, number>();
+  }
+}
+
+/** Build path per item ID: what it is built from and what it builds into. */
+export async function ensureItemIndex(
+  lang = "en_US"
+): Promise<Map<number, { from: number[]; into: number[] }>> {
+  if (itemBuildPaths) return itemBuildPaths;
+  try {
+    type ItemIndex = {
+      data: Record<string, { from?: string[]; into?: string[] }>;
+    };
+    const version = await getLatestVersion();
+    const json = await getJson<ItemIndex>(
+      `${CDN_BASE}/cdn/${version}/data/${lang}/item.json`
+    );
+    const map = new Map<number, { from: number[]; into: number[] }>();
+    for (const id of Object.keys(json.data)) {
+      const item = json.data[id];
+      map.set(Number(id), {
+        from: (item.from || []).map(Number),
+        into: (item.into || []).map(Number),
+      });
+    }
+    itemBuildPaths = map;
+    return itemBuildPaths;
+  } catch (e) {
+    console.error(`[datadragon] Failed to build item index:`, e);
+    // Not cached, so the next call retries
+    return new Map<number, { from: number[]; into: number[] }>();
+  }
+}
+
+/** Per-rank cooldowns of a champion's Q/W/E/R (index 0–3), e.g. for "Ahri". */
+export async function ensureChampionSpellCooldowns(
+  championId: string,
+  lang = "en_US"
+): Promise<number[][]> {
+  const cached = championSpellCooldowns.get(championId);
+  if (cached) return cached;
+  type ChampionDetail = {
+    data: Record<string, { spells: Array<{ cooldown: number[] }> }>;
+  };
+  const version = await getLatestVersion();
+  const json = await getJson<ChampionDetail>(
+    `${CDN_BASE}/cdn/${version}/data/${lang}/champion/${championId}.json`
+  );
+  const spells = json.data[championId]?.spells || [];
+  const cooldowns = spells.map((s) => s.cooldown || []);
+  championSpellCooldowns.set(championId, cooldowns);
+  return cooldowns;
+}
+
 export function buildChampionSquareUrl(
   version: string,
   championId: string
@@ -0,0 +1,73 @@
+import type { TeamSide } from "./objectiveLedger";
+
+// Turns each player's relative respawnTimer into an absolute respawn game
+// time, so countdowns stay correct between polls and in replays.
+
+export type DeadChampion = {
+  name: string;
+  champion: string;
+  team: string;
+  side: TeamSide | null;
+  respawnAt: number;
+};
+
+export type DeathState = {
+  allies: DeadChampion[]; // dead teammates, soonest respawn first
+  enemies: DeadChampion[]; // dead enemies, soonest respawn first
+};
+
+export function computeDeathState(
+  gameTimeSec: number,
+  players: Array<any>,
+  myTeam: string
+): DeathState {
+  const state: DeathState = { allies: [], enemies: [] };
+  for (const p of players || []) {
+    const timer = Number(p?.respawnTimer) || 0;
+    if (!p?.isDead || timer <= 0) continue;
+    const side: TeamSide | null = !myTeam
+      ? null
+      : p.team === myTeam
+      ? "myTeam"
+      : "enemyTeam";
+    const dead: DeadChampion = {
+      name: String(p.riotIdGameName || p.summonerName || ""),
+      champion: String(p.championName || ""),
+      team: String(p.team || ""),
+      side,
+      respawnAt: gameTimeSec + timer,
+    };
+    if (side === "myTeam") state.allies.push(dead);
+    else if (side === "enemyTeam") state.enemies.push(dead);
+  }
+  state.allies.sort((a, b) => a.respawnAt - b.respawnAt);
+  state.enemies.sort((a, b) => a.respawnAt - b.respawnAt);
+  return state;
+}
+
+/** Drop champions that have respawned by `gameTimeSec`. */
+export function advanceDeathState(
+  state: DeathState,
+  gameTimeSec: number
+): DeathState {
+  return {
+    allies: state.allies.filter((d) => d.respawnAt > gameTimeSec),
+    enemies: state.enemies.filter((d) => d.respawnAt > gameTimeSec),
+  };
+}
+
+/**
+ * How long at least `count` enemies stay dead from `gameTimeSec`, or 0 when
+ * fewer than `count` are dead.
+ */
+export function advantageWindowSec(
+  enemies: Array<{ respawnAt: number }>,
+  gameTimeSec: number,
+  count: number
+): number {
+  const remaining = enemies
+    .map((d) => d.respawnAt - gameTimeSec)
+    .filter((s) => s > 0)
+    .sort((a, b) => b - a);
+  return remaining.length >= count ? remaining[count - 1] : 0;
+}
@@ -0,0 +1,123 @@
+import { LedgerEntry, TeamSide } from "./objectiveLedger";
+
+// Dragon pit model built from the DragonKill entries of the objective ledger:
+// per-team drake counts by type, soul point / soul detection, the soul (rift)
+// type and Elder timers.
+
+export type DragonKillEntry = {
+  time: number;
+  type: string; // DragonType: Fire, Earth, Water, Air, Hextech, Chemtech, Elder
+  team: TeamSide | null;
+  killer: string;
+  stolen: boolean;
+};
+
+export interface DragonState {
+  nextSpawnTime: number;
+  lastKillType: string | null;
+  nextIsElder: boolean;
+  counts: Record<TeamSide, Record<string, number>>;
+  totals: Record<TeamSide, number>;
+  soulPoint: Record<TeamSide, boolean>;
+  // Known once the third elemental drake is taken; until then the rift is
+  // announced (after the second drake) but the API does not expose its type
+  soulType: string | null;
+  soulTypeCandidates: string[];
+  soulTakenBy: TeamSide | null;
+  soulTakenAt: number | null;
+  elderKills: Record<TeamSide, number>;
+  kills: DragonKillEntry[];
+}
+
+const DRAGON_FIRST_SPAWN = 300; // 5:00
+const DRAGON_RESPAWN = 300; // 5:00
+const ELDER_SPAWN_AFTER_SOUL = 360; // 6:00
+const ELDER_RESPAWN = 360; // 6:00
+const DRAKES_FOR_SOUL = 4;
+const ELEMENTAL_TYPES = [
+  "Fire",
+  "Earth",
+  "Water",
+  "Air",
+  "Hextech",
+  "Chemtech",
+];
+
+export function computeDragonState(
+  gameTimeSec: number,
+  ledger: LedgerEntry[]
+): DragonState {
+  const kills: DragonKillEntry[] = ledger
+    .filter((e) => e.objective === "dragon")
+    .map((e) => ({
+      time: e.time,
+      type: e.dragonType || "",
+      team: e.team,
+      killer: e.killer,
+      stolen: e.stolen,
+    }));
+
+  const counts: DragonState["counts"] = { myTeam: {}, enemyTeam: {} };
+  const totals: DragonState["totals"] = { myTeam: 0, enemyTeam: 0 };
+  const elderKills: DragonState["elderKills"] = { myTeam: 0, enemyTeam: 0 };
+  const elementalOrder: string[] = [];
+  let soulTakenBy: TeamSide | null = null;
+  let soulTakenAt: number | null = null;
+  let lastKill: DragonKillEntry | null = null;
+  let lastElderKill: DragonKillEntry | null = null;
+
+  for (const k of kills) {
+    lastKill = k;
+    if (k.type === "Elder") {
+      lastElderKill = k;
+      if (k.team) elderKills[k.team]++;
+      continue;
+    }
+    elementalOrder.push(k.type);
+    if (!k.team) continue;
+    counts[k.team][k.type] = (counts[k.team][k.type] || 0) + 1;
+    totals[k.team]++;
+    if (!soulTakenBy && totals[k.team] >= DRAKES_FOR_SOUL) {
+      soulTakenBy = k.team;
+      soulTakenAt = k.time;
+    }
+  }
+
+  const soulType = elementalOrder.length >= 3 ? elementalOrder[2] : null;
+  const soulTypeCandidates = soulType
+    ? [soulType]
+    : elementalOrder.length === 2
+    ? ELEMENTAL_TYPES.filter((t) => !elementalOrder.includes(t))
+    : [];
+
+  const nextIsElder = soulTakenAt !== null;
+  let nextSpawnTime: number;
+  if (soulTakenAt !== null) {
+    nextSpawnTime =
+      lastElderKill && lastElderKill.time > soulTakenAt
+        ? lastElderKill.time + ELDER_RESPAWN
+        : soulTakenAt + ELDER_SPAWN_AFTER_SOUL;
+  } else if (gameTimeSec < DRAGON_FIRST_SPAWN || !lastKill) {
+    nextSpawnTime = DRAGON_FIRST_SPAWN;
+  } else {
+    nextSpawnTime = lastKill.time + DRAGON_RESPAWN;
+  }
+
+  return {
+    nextSpawnTime,
+    lastKillType: lastKill?.type || null,
+    nextIsElder,
+    counts,
+    totals,
+    soulPoint: {
+      myTeam: !soulTakenBy && totals.myTeam === DRAKES_FOR_SOUL - 1,
+      enemyTeam: !soulTakenBy && totals.enemyTeam === DRAKES_FOR_SOUL - 1,
+    },
+    soulType,
+    soulTypeCandidates,
+    soulTakenBy,
+    soulTakenAt,
+    elderKills,
+    kills,
+  };
+}
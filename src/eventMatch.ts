@@ -0,0 +1,78 @@
+import { structureOwner } from "./structures";
+
+// Field filters for Live Client events, used by the tips engine's `event`
+// trigger. A filter value matches a field literally (strings ignore case), or
+// with `me`, `ally` or `enemy` matches by whose side the named unit is on:
+//
+//   KillerName: ally        an ally (or our turret/minion) got the kill
+//   Assisters: me           I assisted (any entry in the list)
+//   AcingTeam: enemy        the enemy team aced us
+//   TurretKilled: ally      one of our turrets fell
+//   DragonType: [Elder, Fire]
+
+export type EventSide = "me" | "ally" | "enemy";
+
+export type EventFilterValue =
+  | string
+  | number
+  | boolean
+  | Array<string | number | boolean>;
+
+export type EventMatchContext = {
+  nameToTeam: Map<string, string>; // player name → ORDER/CHAOS
+  myTeam: string;
+  myName: string; // riotIdGameName or summonerName
+};
+
+const SIDES = ["me", "ally", "enemy"];
+
+// Team a unit belongs to: players by name, structures by ID, minions by the
+// T100/T200 in their name, or a raw team value (AcingTeam)
+function teamOf(value: string, ctx: EventMatchContext): string | null {
+  const player = ctx.nameToTeam.get(value);
+  if (player) return player;
+  const owner = structureOwner(value);
+  if (owner) return owner;
+  const minion = /^Minion_T(100|200)/.exec(value);
+  if (minion) return minion[1] === "100" ? "ORDER" : "CHAOS";
+  if (value === "ORDER" || value === "CHAOS") return value;
+  return null;
+}
+
+function valueMatches(
+  actual: unknown,
+  expected: string | number | boolean,
+  ctx: EventMatchContext
+): boolean {
+  if (typeof expected === "string" && SIDES.includes(expected)) {
+    const name = String(actual ?? "");
+    if (!name) return false;
+    if (expected === "me") return name === ctx.myName;
+    const team = teamOf(name, ctx);
+    if (!team || !ctx.myTeam) return false;
+    return expected === "ally" ? team === ctx.myTeam : team !== ctx.myTeam;
+  }
+  if (typeof expected === "string" && typeof actual === "string")
+    return actual.toLowerCase() === expected.toLowerCase();
+  // YAML reads Stolen: true as a boolean; the API sends "True"/"False"
+  if (typeof expected === "boolean" && typeof actual === "string")
+    return actual.toLowerCase() === String(expected);
+  return actual === expected;
+}
+
+/** True when every filter matches the event; list fields match on any entry. */
+export function eventMatches(
+  ev: any,
+  filters: Record<string, EventFilterValue> | undefined,
+  ctx: EventMatchContext
+): boolean {
+  for (const field of Object.keys(filters || {})) {
+    const wanted = filters![field];
+    const options = Array.isArray(wanted) ? wanted : [wanted];
+    const actual = ev?.[field];
+    const values = Array.isArray(actual) ? actual : [actual];
+    const ok = values.some((v) => options.some((o) => valueMatches(v, o, ctx)));
+    if (!ok) return false;
+  }
+  return true;
+}
@@ -0,0 +1,104 @@
+import type { LedgerEntry, TeamSide } from "./objectiveLedger";
+import { itemGoldOf } from "./itemTracker";
+import { buildNameToTeam } from "./riotClient";
+import { structureOwner } from "./structures";
+
+// Team gold is not in the Live Client API, so it is estimated from what is:
+// income (starting and passive gold, CS, kill/assist bounties, turrets and
+// Baron) and item value. Items already bought prove gold was earned, so each
+// player counts as the larger of the two; that covers income the model
+// misses (plates, wards, bounties, Support quest).
+
+export type TeamGoldEstimate = {
+  myTeam: number;
+  enemyTeam: number;
+  diff: number; // myTeam − enemyTeam
+};
+
+export type GoldSample = TeamGoldEstimate & { gameTime: number };
+
+const STARTING_GOLD = 500;
+const PASSIVE_GOLD_START_SEC = 65; // 1:05
+const PASSIVE_GOLD_PER_SEC = 2.04; // 20.4 per 10 s
+const GOLD_PER_CS = 20; // rough average over melee, caster and cannon waves
+const KILL_GOLD = 300;
+const FIRST_BLOOD_BONUS = 100;
+const ASSIST_POOL = 150; // split between assisters
+// Team-wide gold, shared between the five members
+const TURRET_TEAM_GOLD = 300;
+const INHIB_TEAM_GOLD = 50;
+const BARON_TEAM_GOLD = 1500; // 300 per member
+
+function nameOf(p: any): string {
+  return String(p?.riotIdGameName || p?.summonerName || "");
+}
+
+export function estimateTeamGold(
+  gameTimeSec: number,
+  players: Array<any>,
+  events: Array<any>,
+  ledger: LedgerEntry[],
+  myTeam: string
+): TeamGoldEstimate {
+  const estimate: TeamGoldEstimate = { myTeam: 0, enemyTeam: 0, diff: 0 };
+  if (!myTeam) return estimate;
+  const sideOf = (team: string): TeamSide =>
+    team === myTeam ? "myTeam" : "enemyTeam";
+
+  // Raw team name → side, and each player's bounty income
+  const teamOf = buildNameToTeam(players);
+  const bounties = new Map<string, number>();
+  const add = (name: string, gold: number) =>
+    bounties.set(name, (bounties.get(name) || 0) + gold);
+  const teamBonus: Record<TeamSide, number> = { myTeam: 0, enemyTeam: 0 };
+
+  for (const ev of events || []) {
+    const t = Number(ev?.EventTime) || 0;
+    if (t > gameTimeSec) continue;
+    if (ev?.EventName === "ChampionKill" && ev.KillerName) {
+      add(String(ev.KillerName), KILL_GOLD);
+      const assisters: string[] = Array.isArray(ev.Assisters)
+        ? ev.Assisters
+        : [];
+      for (const a of assisters) add(String(a), ASSIST_POOL / assisters.length);
+    } else if (ev?.EventName === "FirstBlood" && ev.Recipient) {
+      add(String(ev.Recipient), FIRST_BLOOD_BONUS);
+    } else if (
+      ev?.EventName === "TurretKilled" ||
+      ev?.EventName === "InhibKilled"
+    ) {
+      // The structure's owner loses it; the other team gets the gold
+      const owner = structureOwner(ev.TurretKilled || ev.InhibKilled);
+      const killerTeam = owner
+        ? owner === "ORDER"
+          ? "CHAOS"
+          : "ORDER"
+        : teamOf.get(String(ev.KillerName || ""));
+      if (!killerTeam) continue;
+      teamBonus[sideOf(killerTeam)] +=
+        ev.EventName === "TurretKilled" ? TURRET_TEAM_GOLD : INHIB_TEAM_GOLD;
+    }
+  }
+  for (const e of ledger || []) {
+    if (e.objective === "baron" && e.team && e.time <= gameTimeSec)
+      teamBonus[e.team] += BARON_TEAM_GOLD;
+  }
+
+  const passive =
+    Math.max(0, gameTimeSec - PASSIVE_GOLD_START_SEC) * PASSIVE_GOLD_PER_SEC;
+  for (const p of players || []) {
+    if (!p?.team) continue;
+    const side = sideOf(p.team);
+    const income =
+      STARTING_GOLD +
+      passive +
+      (Number(p.scores?.creepScore) || 0) * GOLD_PER_CS +
+      (bounties.get(nameOf(p)) || 0) +
+      teamBonus[side] / 5;
+    estimate[side] += Math.max(income, itemGoldOf(p));
+  }
+  estimate.myTeam = Math.round(estimate.myTeam);
+  estimate.enemyTeam = Math.round(estimate.enemyTeam);
+  estimate.diff = estimate.myTeam - estimate.enemyTeam;
+  return estimate;
+}
@@ -0,0 +1,182 @@
+import type { TeamSide } from "./objectiveLedger";
+import { playerKey } from "./spellTracker";
+
+// Purchases and sales for every player, found by diffing allPlayers[].items
+// between polls (the API only reports current inventories). Components that
+// disappear into a completed item are consumed, not sold.
+
+export type ItemEventKind = "completed" | "component" | "sold";
+
+export type ItemEvent = {
+  gameTime: number;
+  player: string; // riotIdGameName (or summonerName)
+  champion: string;
+  side: TeamSide | null;
+  kind: ItemEventKind;
+  itemId: number;
+  item: string; // display name
+  price: number;
+};
+
+export type ItemTimeline = {
+  events: ItemEvent[]; // the latest ITEM_EVENT_TAIL, oldest first
+  total: number; // events so far this game, including older ones
+  // Estimated gold held in items (consumables excluded)
+  playerGold: Record<string, number>;
+  teamGold: Record<TeamSide, number>;
+};
+
+/** What Data Dragon's item.json says about an item's build path. */
+export type ItemInfo = {
+  from: number[];
+  into: number[];
+};
+
+// Snapshots carry only the most recent events so their size doesn't grow
+// with the match; the match history stores every event once
+export const ITEM_EVENT_TAIL = 30;
+
+// Without Data Dragon, anything at least this expensive counts as completed
+const FALLBACK_COMPLETED_PRICE = 2200;
+const TRINKET_SLOT = 6;
+
+type Owned = { itemId: number; name: string; price: number; count: number };
+
+function inventoryOf(p: any): Map<number, Owned> {
+  const owned = new Map<number, Owned>();
+  for (const item of p?.items || []) {
+    const itemId = Number(item?.itemID);
+    if (!itemId || item.consumable || item.slot === TRINKET_SLOT) continue;
+    const prev = owned.get(itemId);
+    const count = Math.max(1, Number(item.count) || 1);
+    if (prev) prev.count += count;
+    else
+      owned.set(itemId, {
+        itemId,
+        name: String(item.displayName || itemId),
+        price: Number(item.price) || 0,
+        count,
+      });
+  }
+  return owned;
+}
+
+/** Gold a player holds in items, by Live Client prices (no consumables). */
+export function itemGoldOf(p: any): number {
+  let gold = 0;
+  for (const item of p?.items || []) {
+    if (item?.consumable) continue;
+    gold += (Number(item?.price) || 0) * Math.max(1, Number(item?.count) || 1);
+  }
+  return gold;
+}
+
+export class ItemTracker {
+  private itemIndex = new Map<number, ItemInfo>();
+  private inventories = new Map<string, Map<number, Owned>>();
+  private events: ItemEvent[] = [];
+  private lastGameTime = 0;
+
+  /** Build paths from Data Dragon; improves completed/sold detection. */
+  setItemIndex(index: Map<number, ItemInfo>) {
+    this.itemIndex = index;
+  }
+
+  /** Feed the latest player list; returns the recent timeline. */
+  observe(
+    gameTimeSec: number,
+    players: Array<any>,
+    myTeam: string
+  ): ItemTimeline {
+    // Game clock went backwards → new game
+    if (gameTimeSec + 5 < this.lastGameTime) {
+      this.inventories.clear();
+      this.events = [];
+    }
+    this.lastGameTime = gameTimeSec;
+
+    const playerGold: Record<string, number> = {};
+    const teamGold: Record<TeamSide, number> = { myTeam: 0, enemyTeam: 0 };
+    for (const p of players || []) {
+      const name = playerKey(p);
+      if (!name) continue;
+      const side: TeamSide | null = !myTeam
+        ? null
+        : p.team === myTeam
+        ? "myTeam"
+        : "enemyTeam";
+      const gold = itemGoldOf(p);
+      playerGold[name] = gold;
+      if (side) teamGold[side] += gold;
+
+      const current = inventoryOf(p);
+      const previous = this.inventories.get(name);
+      this.inventories.set(name, current);
+      // First sighting is a baseline (app opened mid-game), not a purchase
+      if (!previous) continue;
+      const base = {
+        gameTime: gameTimeSec,
+        player: name,
+        champion: String(p.championName || ""),
+        side,
+      };
+      for (const e of this.diff(previous, current)) {
+        this.events.push({ ...base, ...e });
+      }
+    }
+    return {
+      events: this.events.slice(-ITEM_EVENT_TAIL),
+      total: this.events.length,
+      playerGold,
+      teamGold,
+    };
+  }
+
+  private diff(
+    previous: Map<number, Owned>,
+    current: Map<number, Owned>
+  ): Array<Pick<ItemEvent, "kind" | "itemId" | "item" | "price">> {
+    const added: Owned[] = [];
+    const removed: Owned[] = [];
+    for (const [id, now] of current) {
+      const before = previous.get(id)?.count ?? 0;
+      for (let i = before; i < now.count; i++) added.push(now);
+    }
+    for (const [id, before] of previous) {
+      const now = current.get(id)?.count ?? 0;
+      for (let i = now; i < before.count; i++) removed.push(before);
+    }
+
+    // Anything a new item builds from was used up, not sold
+    const consumed = new Set<number>();
+    for (const a of added) {
+      for (const from of this.itemIndex.get(a.itemId)?.from || [])
+        consumed.add(from);
+    }
+    const out: Array<Pick<ItemEvent, "kind" | "itemId" | "item" | "price">> =
+      [];
+    for (const a of added) {
+      out.push({
+        kind: this.isCompleted(a) ? "completed" : "component",
+        itemId: a.itemId,
+        item: a.name,
+        price: a.price,
+      });
+    }
+    for (const r of removed) {
+      if (consumed.has(r.itemId)) continue;
+      // No build path known: a removal alongside a pricier purchase is
+      // most likely an upgrade
+      if (!this.itemIndex.size && added.some((a) => a.price > r.price))
+        continue;
+      out.push({ kind: "sold", itemId: r.itemId, item: r.name, price: r.price });
+    }
+    return out;
+  }
+
+  private isCompleted(item: Owned): boolean {
+    const info = this.itemIndex.get(item.itemId);
+    if (!info) return item.price >= FALLBACK_COMPLETED_PRICE;
+    return info.from.length > 0 && info.into.length === 0;
+  }
+}
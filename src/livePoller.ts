@@ -0,0 +1,124 @@
+import { EventEmitter } from "events";
+import {
+  AggregatedSnapshot,
+  fetchLiveClientTick,
+  LiveClientError,
+} from "./riotClient";
+import type { AllGameData } from "./liveclientTypes";
+import { ConnectionStatus, ConnectionTracker } from "./connectionState";
+
+// Single polling loop for the main process: one /allgamedata request per tick,
+// fanned out to every subscriber (windows, tips, recorders) as a "tick" event.
+// Failed polls emit "pollError" with the message. Connection state changes
+// (see connectionState.ts) emit "state" before the tick or error that caused
+// them; while no game is running, polls back off exponentially.
+
+export type LiveTick = {
+  allGameData: AllGameData;
+  snapshot: AggregatedSnapshot;
+  rawDump: Record<string, any>;
+};
+
+const MAX_BACKOFF_MS = 15000;
+
+export class LivePoller extends EventEmitter {
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private generation = 0; // bumped by start/stop so stale loops end
+  private inFlight: Promise<void> | null = null;
+  private latestTick: LiveTick | null = null;
+  private readonly tracker = new ConnectionTracker();
+  private idlePolls = 0; // consecutive polls with no game, for the backoff
+
+  constructor(options: { intervalMs?: number } = {}) {
+    super();
+    this.intervalMs = options.intervalMs ?? 1000;
+  }
+
+  get latest(): LiveTick | null {
+    return this.latestTick;
+  }
+
+  get connection(): ConnectionStatus {
+    return { ...this.tracker.current };
+  }
+
+  start() {
+    this.clearTimer();
+    this.idlePolls = 0;
+    void this.loop(++this.generation);
+  }
+
+  stop() {
+    this.clearTimer();
+    this.generation++;
+    if (this.tracker.reset()) this.emit("state", this.connection);
+  }
+
+  setIntervalMs(ms: number) {
+    this.intervalMs = ms;
+    if (this.timer) this.start();
+  }
+
+  /** Poll now; concurrent callers share the request already in flight. */
+  pollOnce(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.poll().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /** The poll interval, doubled for every poll in a row without a game. */
+  get nextDelayMs(): number {
+    if (!this.tracker.waiting) return this.intervalMs;
+    const factor = 2 ** Math.min(this.idlePolls, 10);
+    return Math.min(
+      Math.max(MAX_BACKOFF_MS, this.intervalMs),
+      this.intervalMs * factor
+    );
+  }
+
+  private async loop(generation: number) {
+    await this.pollOnce();
+    if (generation !== this.generation) return;
+    const delay = this.nextDelayMs;
+    this.timer = setTimeout(() => void this.loop(generation), delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll() {
+    try {
+      const tick = await fetchLiveClientTick();
+      this.latestTick = tick;
+      const { gameData, allPlayers, events } = tick.allGameData;
+      const ended = (events?.Events || []).some(
+        (ev) => ev?.EventName === "GameEnd"
+      );
+      const changed = this.tracker.onData(
+        Number(gameData?.gameTime) || 0,
+        Array.isArray(allPlayers) ? allPlayers.length : 0,
+        ended
+      );
+      this.idlePolls = this.tracker.waiting ? this.idlePolls + 1 : 0;
+      if (changed) this.emit("state", this.connection);
+      this.emit("tick", tick);
+    } catch (err: unknown) {
+      this.latestTick = null;
+      const message = err instanceof Error ? err.message : String(err);
+      const failure =
+        err instanceof LiveClientError ? err.failure : "unreachable";
+      const changed = this.tracker.onError(failure, message);
+      this.idlePolls = this.tracker.waiting ? this.idlePolls + 1 : 0;
+      if (changed) this.emit("state", this.connection);
+      this.emit("pollError", message);
+    }
+  }
+}
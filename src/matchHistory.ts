@@ -0,0 +1,283 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import type { AggregatedSnapshot } from "./riotClient";
+import type { TipPayload } from "./tipsEngine";
+import { ItemEvent, ITEM_EVENT_TAIL } from "./itemTracker";
+import type { GoldSample } from "./goldEstimate";
+import type { CsSample } from "./csBenchmark";
+import { TimeSeries } from "./timeSeries";
+import {
+  listRecordings,
+  pruneRecordings,
+  timestampForFile,
+} from "./sessionRecorder";
+
+// Keeps a compact per-match history of aggregated snapshots and fired tips so
+// finished games can be scrubbed in the Replays tab. Events (deduplicated by
+// EventID) and item purchases are stored once and re-attached to frames when
+// a match is loaded; graph series are rebuilt from the frames themselves.
+
+export const MATCH_EXTENSION = ".match.jsonl.gz";
+
+// Store at most one frame per this many seconds of game time
+export const FRAME_SPACING_SEC = 5;
+const MATCH_END_IDLE_MS = 60_000;
+
+export interface MatchSummary {
+  id: string; // file name inside the matches directory
+  recordedAt: number;
+  champion: string;
+  mode: string;
+  sizeBytes: number;
+}
+
+export interface MatchFrame {
+  gameTime: number;
+  wallClock: number;
+  snapshot: AggregatedSnapshot;
+}
+
+export interface MatchTip {
+  gameTime: number;
+  wallClock: number;
+  tip: TipPayload;
+}
+
+export interface LoadedMatch {
+  id: string;
+  header: {
+    recordedAt: string;
+    champion: string;
+    mode: string;
+    riotId: string | null;
+  } | null;
+  frames: MatchFrame[];
+  frameSpacingSec: number;
+  tips: MatchTip[]; // fired live during the match
+  simulatedTips?: MatchTip[]; // the current rules run over the frames
+}
+
+type ActiveMatch = {
+  filePath: string;
+  gzip: zlib.Gzip;
+  lastFrameAt: number;
+  lastGameTime: number;
+  seenEventIds: Set<number>;
+  itemEventsWritten: number;
+};
+
+function sanitize(s: string): string {
+  return s.replace(/[^A-Za-z0-9_]/g, "");
+}
+
+export class MatchHistory {
+  private readonly dir: string;
+  private readonly keep: number;
+  private active: ActiveMatch | null = null;
+  private lastSuccessAtMs = 0;
+
+  constructor(options: { dir: string; keep?: number }) {
+    this.dir = options.dir;
+    this.keep = options.keep ?? 20;
+  }
+
+  /** Record one poll result; pass null when the poll failed. */
+  record(snapshot: AggregatedSnapshot | null) {
+    const now = Date.now();
+    if (!snapshot || snapshot.error) {
+      if (this.active && now - this.lastSuccessAtMs > MATCH_END_IDLE_MS) {
+        this.close();
+      }
+      return;
+    }
+    this.lastSuccessAtMs = now;
+    const gameTime = snapshot.game.time;
+    if (this.active && gameTime + 5 < this.active.lastGameTime) this.close();
+    if (!this.active) this.open(snapshot);
+    const active = this.active;
+    if (!active) return;
+    active.lastGameTime = gameTime;
+
+    for (const ev of snapshot.raw?.events || []) {
+      const id = Number(ev?.EventID);
+      if (!Number.isFinite(id) || active.seenEventIds.has(id)) continue;
+      active.seenEventIds.add(id);
+      active.gzip.write(JSON.stringify({ type: "event", event: ev }) + "\n");
+    }
+    // Item events new since the last poll are at the end of the tail
+    const items = snapshot.itemTimeline;
+    if (items) {
+      const fresh = Math.min(
+        Math.max(0, items.total - active.itemEventsWritten),
+        items.events.length
+      );
+      for (const item of items.events.slice(items.events.length - fresh))
+        active.gzip.write(JSON.stringify({ type: "item", item }) + "\n");
+      active.itemEventsWritten = items.total;
+    }
+
+    if (gameTime - active.lastFrameAt < FRAME_SPACING_SEC) return;
+    active.lastFrameAt = gameTime;
+    const { raw, itemTimeline, goldHistory, csHistory, ...rest } = snapshot;
+    const compact = {
+      ...rest,
+      raw: { ...raw, events: [] },
+      itemTimeline: itemTimeline && { ...itemTimeline, events: [] },
+    };
+    active.gzip.write(
+      JSON.stringify({
+        type: "frame",
+        gameTime,
+        wallClock: now,
+        snapshot: compact,
+      }) + "\n"
+    );
+    active.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+  }
+
+  /** Remember a tip that fired during the current match. */
+  recordTip(tip: TipPayload, gameTime: number | undefined) {
+    if (!this.active) return;
+    this.active.gzip.write(
+      JSON.stringify({
+        type: "tip",
+        gameTime: gameTime ?? this.active.lastGameTime,
+        wallClock: Date.now(),
+        tip,
+      }) + "\n"
+    );
+    this.active.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+  }
+
+  close() {
+    const active = this.active;
+    this.active = null;
+    if (active) active.gzip.end();
+  }
+
+  list(): MatchSummary[] {
+    return listRecordings(this.dir, MATCH_EXTENSION)
+      .reverse()
+      .map((f) => {
+        const id = path.basename(f.filePath);
+        // <timestamp>-<champion>-<mode>.match.jsonl.gz
+        const [, , champion = "", mode = ""] = id
+          .slice(0, -MATCH_EXTENSION.length)
+          .split("-");
+        return {
+          id,
+          recordedAt: f.mtimeMs,
+          champion,
+          mode,
+          sizeBytes: f.size,
+        };
+      });
+  }
+
+  load(id: string): LoadedMatch | null {
+    if (!id.endsWith(MATCH_EXTENSION) || path.basename(id) !== id) return null;
+    return readMatchFile(path.join(this.dir, id));
+  }
+
+  private open(snapshot: AggregatedSnapshot) {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+    } catch {}
+    pruneRecordings(this.dir, {
+      keep: this.keep,
+      maxTotalBytes: Number.POSITIVE_INFINITY,
+      extension: MATCH_EXTENSION,
+    });
+    const champion = sanitize(snapshot.player.champion) || "Unknown";
+    const mode = sanitize(snapshot.game.mode) || "UNKNOWN";
+    const filePath = path.join(
+      this.dir,
+      `${timestampForFile(new Date())}-${champion}-${mode}${MATCH_EXTENSION}`
+    );
+    const out = fs.createWriteStream(filePath);
+    const gzip = zlib.createGzip();
+    gzip.pipe(out);
+    out.on("error", (err) => {
+      console.error("[MatchHistory] Write failed:", err);
+    });
+    gzip.write(
+      JSON.stringify({
+        type: "header",
+        recordedAt: new Date().toISOString(),
+        champion: snapshot.player.champion,
+        mode: snapshot.game.mode,
+        riotId: snapshot.player.riotId,
+      }) + "\n"
+    );
+    this.active = {
+      filePath,
+      gzip,
+      lastFrameAt: Number.NEGATIVE_INFINITY,
+      lastGameTime: 0,
+      seenEventIds: new Set<number>(),
+      itemEventsWritten: 0,
+    };
+  }
+}
+
+/** Parse a match file, re-attaching the stored events to each frame. */
+export function readMatchFile(filePath: string): LoadedMatch | null {
+  let text: string;
+  try {
+    const buf = fs.readFileSync(filePath);
+    text = zlib
+      .gunzipSync(buf, { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+      .toString("utf8");
+  } catch {
+    return null;
+  }
+  const match: LoadedMatch = {
+    id: path.basename(filePath),
+    header: null,
+    frames: [],
+    frameSpacingSec: FRAME_SPACING_SEC,
+    tips: [],
+  };
+  const events: any[] = [];
+  const items: ItemEvent[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (entry.type === "header") match.header = entry;
+    else if (entry.type === "event") events.push(entry.event);
+    else if (entry.type === "item") items.push(entry.item);
+    else if (entry.type === "frame") match.frames.push(entry);
+    else if (entry.type === "tip") match.tips.push(entry);
+  }
+  events.sort((a, b) => (a.EventTime || 0) - (b.EventTime || 0));
+  const gold = new TimeSeries<GoldSample>();
+  const cs = new TimeSeries<CsSample>();
+  for (const f of match.frames) {
+    f.snapshot.raw.events = events.filter(
+      (ev) => (ev.EventTime || 0) <= f.gameTime
+    );
+    if (f.snapshot.itemTimeline) {
+      const upTo = items.filter((it) => it.gameTime <= f.gameTime);
+      f.snapshot.itemTimeline.events = upTo.slice(-ITEM_EVENT_TAIL);
+      f.snapshot.itemTimeline.total = upTo.length;
+    }
+    if (f.snapshot.gold)
+      f.snapshot.goldHistory = gold.add({
+        gameTime: f.gameTime,
+        ...f.snapshot.gold,
+      });
+    if (f.snapshot.csBenchmark)
+      f.snapshot.csHistory = cs.add({
+        gameTime: f.gameTime,
+        cs: f.snapshot.csBenchmark.cs,
+        target: f.snapshot.csBenchmark.target,
+      });
+  }
+  return match;
+}
@@ -0,0 +1,55 @@
+// Summoner's Rift wave timing (simplified): first wave at 90s, then every 30s.
+// Cannon waves are every 3rd wave until 20:00, every 2nd until 35:00 and
+// every wave after that.
+
+const FIRST_WAVE = 90;
+const CADENCE = 30;
+const CANNON_EVERY_3RD_UNTIL = 1200; // 20 min
+const CANNON_EVERY_2ND_UNTIL = 2100; // 35 min
+const MINIONS_PER_WAVE = 6; // 3 melee + 3 caster
+// Rough time from spawn until a wave meets the enemy wave in lane
+const MINION_TRAVEL_SEC = 25;
+
+function waveSpawnTime(waveIndex: number): number {
+  return FIRST_WAVE + (waveIndex - 1) * CADENCE;
+}
+
+function isCannonWave(waveIndex: number): boolean {
+  const t = waveSpawnTime(waveIndex);
+  if (t <= CANNON_EVERY_3RD_UNTIL) return waveIndex % 3 === 0;
+  if (t <= CANNON_EVERY_2ND_UNTIL) return waveIndex % 2 === 0;
+  return true;
+}
+
+/** The next few cannon waves that spawn before 20:00 (laning phase only). */
+export function getNextCannonWavesBefore20(
+  nowSec: number
+): { waveIndex: number; spawnTime: number }[] {
+  const waves: { waveIndex: number; spawnTime: number }[] = [];
+  // compute current wave index (1-based) floor
+  const currentWaveIndex =
+    nowSec < FIRST_WAVE ? 0 : Math.floor((nowSec - FIRST_WAVE) / CADENCE) + 1;
+  // next few cannon waves
+  for (let i = currentWaveIndex + 1; ; i++) {
+    const t = waveSpawnTime(i);
+    if (t > CANNON_EVERY_3RD_UNTIL) break;
+    if (isCannonWave(i)) {
+      waves.push({ waveIndex: i, spawnTime: t });
+      // limit number returned
+      if (waves.length >= 5) break;
+    }
+  }
+  return waves;
+}
+
+/**
+ * Lane minions one lane has offered by `gameTimeSec`: every wave that has
+ * reached lane, cannons included. The ceiling for a laner's CS.
+ */
+export function maxLaneCsAt(gameTimeSec: number): number {
+  let cs = 0;
+  for (let i = 1; waveSpawnTime(i) + MINION_TRAVEL_SEC <= gameTimeSec; i++) {
+    cs += MINIONS_PER_WAVE + (isCannonWave(i) ? 1 : 0);
+  }
+  return cs;
+}
@@ -0,0 +1,454 @@
+import * as http from "http";
+import * as https from "https";
+import * as fs from "fs";
+import * as path from "path";
+import { EventEmitter } from "events";
+import { readSessionFile, SessionFrame } from "./sessionFile";
+import { createSelfSignedCert } from "./selfSignedCert";
+
+// Local stand-in for the Riot Live Client Data API (https://127.0.0.1:2999).
+// Replays either the payloads in data/examples/ or a recorded session on a
+// game clock, so the dashboard and tips can be exercised without a live match.
+// With --webhook it also runs a receiver that prints tips POSTed by webhook
+// channels (http://127.0.0.1:8080/ by default).
+
+export type MockSource =
+  | { kind: "examples"; dir?: string }
+  | { kind: "session"; file: string };
+
+export interface MockLiveClientOptions {
+  host?: string;
+  port?: number;
+  source?: MockSource;
+  speed?: number; // game seconds per wall-clock second
+  startAt?: number; // game time (seconds) the clock starts at
+  loop?: boolean; // restart from startAt once the timeline ends
+}
+
+type LiveState = {
+  gameData: any;
+  activePlayer: any;
+  allPlayers: any[];
+  events: any[];
+  // playermainrunes for the active player when allPlayers[].runes is empty
+  activeMainRunes?: any;
+};
+
+function resolveDataPath(...segments: string[]): string {
+  return path.resolve(process.cwd(), "data", ...segments);
+}
+
+function readEnvelope(dir: string, file: string): any {
+  try {
+    const raw = fs.readFileSync(path.join(dir, file), "utf8");
+    const obj = JSON.parse(raw);
+    return obj && typeof obj === "object" && "data" in obj ? obj.data : obj;
+  } catch {
+    return null;
+  }
+}
+
+function unwrapEvents(data: any): any[] {
+  if (Array.isArray(data)) return data;
+  if (Array.isArray(data?.Events)) return data.Events;
+  return [];
+}
+
+function loadExamplesState(dir: string): LiveState {
+  const all = readEnvelope(dir, "allgamedata.json") || {};
+  const gameStats = readEnvelope(dir, "gamestats.json") || all.gameData || {};
+  const eventData = readEnvelope(dir, "eventdata.json");
+  const events = unwrapEvents(eventData ?? all.events);
+  const activePlayer =
+    readEnvelope(dir, "activeplayer.json") || all.activePlayer || null;
+  const activeMainRunes = readEnvelope(dir, "playermainrunes.json");
+  const allPlayers: any[] =
+    readEnvelope(dir, "playerlist.json") || all.allPlayers || [];
+  // Live games report main runes in allPlayers[].runes; fill the active
+  // player's entry from playermainrunes.json when the example lacks them
+  const activeId = playerRiotId(activePlayer).toLowerCase();
+  const players = allPlayers.map((p) =>
+    !p?.runes && activeMainRunes && playerRiotId(p).toLowerCase() === activeId
+      ? { ...p, runes: activeMainRunes }
+      : p
+  );
+  return {
+    gameData: { ...(all.gameData || {}), ...gameStats },
+    activePlayer,
+    allPlayers: players,
+    events,
+    activeMainRunes,
+  };
+}
+
+function stateFromResponses(responses: Record<string, unknown>): LiveState {
+  const all = (responses["/liveclientdata/allgamedata"] as any) || {};
+  const gameStats = responses["/liveclientdata/gamestats"] as any;
+  const eventData = responses["/liveclientdata/eventdata"];
+  const playerList = responses["/liveclientdata/playerlist"];
+  return {
+    gameData: gameStats || all.gameData || {},
+    activePlayer:
+      (responses["/liveclientdata/activeplayer"] as any) ||
+      all.activePlayer ||
+      null,
+    allPlayers: Array.isArray(playerList)
+      ? playerList
+      : Array.isArray(all.allPlayers)
+      ? all.allPlayers
+      : [],
+    events: unwrapEvents(eventData ?? all.events),
+  };
+}
+
+function playerRiotId(p: any): string {
+  if (typeof p?.riotId === "string" && p.riotId) return p.riotId;
+  if (p?.riotIdGameName && p?.riotIdTagLine)
+    return `${p.riotIdGameName}#${p.riotIdTagLine}`;
+  return p?.summonerName || "";
+}
+
+function findPlayer(state: LiveState, id: string): any | null {
+  const needle = id.trim().toLowerCase();
+  if (!needle) return null;
+  return (
+    state.allPlayers.find(
+      (p) =>
+        playerRiotId(p).toLowerCase() === needle ||
+        String(p?.summonerName || "").toLowerCase() === needle
+    ) || null
+  );
+}
+
+function activePlayerName(state: LiveState): string {
+  const ap = state.activePlayer;
+  return playerRiotId(ap) || "";
+}
+
+class NotFound extends Error {}
+
+// Builds the payload for one Live Client route from a state snapshot
+function routeResponse(
+  state: LiveState,
+  pathname: string,
+  query: URLSearchParams
+): unknown {
+  const eventsWrap = { Events: state.events };
+  switch (pathname) {
+    case "/liveclientdata/allgamedata":
+      return {
+        activePlayer: state.activePlayer,
+        allPlayers: state.allPlayers,
+        events: eventsWrap,
+        gameData: state.gameData,
+      };
+    case "/liveclientdata/gamestats":
+      return state.gameData;
+    case "/liveclientdata/eventdata":
+      return eventsWrap;
+    case "/liveclientdata/activeplayername":
+      return activePlayerName(state);
+    case "/liveclientdata/activeplayer":
+      return state.activePlayer;
+    case "/liveclientdata/activeplayerabilities":
+      return state.activePlayer?.abilities ?? null;
+    case "/liveclientdata/activeplayerrunes":
+      return state.activePlayer?.fullRunes ?? null;
+    case "/liveclientdata/playerlist":
+      return state.allPlayers;
+  }
+  const player = findPlayer(state, query.get("riotId") || "");
+  if (!player) throw new NotFound(pathname);
+  const isActive =
+    playerRiotId(player).toLowerCase() ===
+    activePlayerName(state).toLowerCase();
+  switch (pathname) {
+    case "/liveclientdata/playerscores":
+      return player.scores ?? null;
+    case "/liveclientdata/playeritems":
+      return player.items ?? [];
+    case "/liveclientdata/playersummonerspells":
+      return player.summonerSpells ?? null;
+    case "/liveclientdata/playermainrunes":
+      if (player.runes) return player.runes;
+      if (isActive && state.activePlayer?.fullRunes?.keystone) {
+        const r = state.activePlayer.fullRunes;
+        return {
+          keystone: r.keystone,
+          primaryRuneTree: r.primaryRuneTree,
+          secondaryRuneTree: r.secondaryRuneTree,
+        };
+      }
+      return isActive ? state.activeMainRunes ?? null : null;
+  }
+  throw new NotFound(pathname);
+}
+
+export class MockLiveClientServer extends EventEmitter {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly speed: number;
+  private readonly loop: boolean;
+  private server: https.Server | null = null;
+  private baseState: LiveState | null = null;
+  private frames: SessionFrame[] = [];
+  private startAt: number;
+  private endAt = 0;
+  private clockStartedAtMs = 0;
+
+  constructor(private readonly options: MockLiveClientOptions = {}) {
+    super();
+    this.host = options.host || "127.0.0.1";
+    this.port = options.port ?? 2999;
+    this.speed = options.speed && options.speed > 0 ? options.speed : 1;
+    this.loop = !!options.loop;
+    this.startAt = options.startAt ?? 0;
+    this.load(options.source || { kind: "examples" });
+  }
+
+  private load(source: MockSource) {
+    if (source.kind === "session") {
+      const session = readSessionFile(source.file);
+      if (!session.frames.length)
+        throw new Error(`No frames in recorded session ${source.file}`);
+      this.frames = session.frames;
+      if (typeof this.options.startAt !== "number")
+        this.startAt = this.frames[0].gameTime;
+      this.endAt = this.frames[this.frames.length - 1].gameTime;
+    } else {
+      const dir = source.dir || resolveDataPath("examples");
+      this.baseState = loadExamplesState(dir);
+      const lastEvent = this.baseState.events.reduce(
+        (max, ev) => Math.max(max, Number(ev?.EventTime) || 0),
+        0
+      );
+      this.endAt = Math.max(
+        Number(this.baseState.gameData?.gameTime) || 0,
+        lastEvent
+      );
+    }
+  }
+
+  /** Current game time on the replay clock, in seconds. */
+  get gameTime(): number {
+    const elapsed = ((Date.now() - this.clockStartedAtMs) / 1000) * this.speed;
+    const span = Math.max(0, this.endAt - this.startAt);
+    if (this.loop && span > 0) return this.startAt + (elapsed % span);
+    return Math.min(this.endAt, this.startAt + elapsed);
+  }
+
+  start(): Promise<{ host: string; port: number }> {
+    // Fresh self-signed pair per run; the app doesn't verify it
+    const { key, cert } = createSelfSignedCert();
+    this.clockStartedAtMs = Date.now();
+    const server = https.createServer({ key, cert }, (req, res) =>
+      this.handle(req, res)
+    );
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject);
+        const addr = server.address();
+        const port = addr && typeof addr === "object" ? addr.port : this.port;
+        this.emit("listening", { host: this.host, port });
+        resolve({ host: this.host, port });
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  private currentFrame(t: number): SessionFrame {
+    // last frame whose gameTime is <= t (frames are sorted)
+    let lo = 0;
+    let hi = this.frames.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (this.frames[mid].gameTime <= t) lo = mid;
+      else hi = mid - 1;
+    }
+    return this.frames[lo];
+  }
+
+  private stateAt(t: number): LiveState {
+    const base = this.frames.length
+      ? stateFromResponses(this.currentFrame(t).responses)
+      : (this.baseState as LiveState);
+    return {
+      ...base,
+      gameData: { ...base.gameData, gameTime: t },
+      events: base.events.filter((ev) => (Number(ev?.EventTime) || 0) <= t),
+    };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || "/", `https://${this.host}`);
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method !== "GET" || !url.pathname.startsWith("/liveclientdata/")) {
+      send(404, { errorCode: "RESOURCE_NOT_FOUND", httpStatus: 404 });
+      return;
+    }
+    const t = this.gameTime;
+    try {
+      // Recorded sessions replay the exact payload when one was captured
+      if (this.frames.length) {
+        const recorded =
+          this.currentFrame(t).responses[url.pathname + url.search];
+        if (recorded !== undefined) {
+          send(200, recorded);
+          return;
+        }
+      }
+      send(200, routeResponse(this.stateAt(t), url.pathname, url.searchParams));
+    } catch (err) {
+      if (err instanceof NotFound) {
+        send(404, {
+          errorCode: "RESOURCE_NOT_FOUND",
+          httpStatus: 404,
+          message: `No data for ${url.pathname}${url.search}`,
+        });
+      } else {
+        send(500, { httpStatus: 500, message: (err as Error).message });
+      }
+    }
+  }
+}
+
+export const DEFAULT_WEBHOOK_PORT = 8080;
+const MAX_WEBHOOK_BODY = 64 * 1024;
+
+/** Plain-HTTP endpoint for webhook channels; emits "tip" per POSTed body. */
+export class MockWebhookReceiver extends EventEmitter {
+  private readonly host: string;
+  private readonly port: number;
+  private server: http.Server | null = null;
+
+  constructor(options: { host?: string; port?: number } = {}) {
+    super();
+    this.host = options.host || "127.0.0.1";
+    this.port = options.port ?? DEFAULT_WEBHOOK_PORT;
+  }
+
+  start(): Promise<{ host: string; port: number }> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject);
+        const addr = server.address();
+        const port = addr && typeof addr === "object" ? addr.port : this.port;
+        resolve({ host: this.host, port });
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_WEBHOOK_BODY) {
+        res.writeHead(413).end();
+        req.destroy();
+      } else chunks.push(chunk);
+    });
+    req.on("end", () => {
+      let tip: unknown;
+      try {
+        tip = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        res.writeHead(400).end();
+        return;
+      }
+      this.emit("tip", tip, req.url || "/");
+      res.writeHead(204).end();
+    });
+  }
+}
+
+// CLI: node dist/src/mockLiveClient.js [--session <file>] [--port 2999]
+//      [--host 127.0.0.1] [--speed 1] [--start <sec>] [--loop]
+//      [--webhook [port]]
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const opt = (name: string): string | undefined => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+  const session = opt("session");
+  const server = new MockLiveClientServer({
+    host: opt("host"),
+    port: opt("port") ? Number(opt("port")) : undefined,
+    speed: opt("speed") ? Number(opt("speed")) : undefined,
+    startAt: opt("start") ? Number(opt("start")) : undefined,
+    loop: args.includes("--loop"),
+    source: session
+      ? { kind: "session", file: path.resolve(session) }
+      : {
+          kind: "examples",
+          dir: opt("examples") ? path.resolve(opt("examples")!) : undefined,
+        },
+  });
+  server
+    .start()
+    .then(({ host, port }) => {
+      console.log(
+        `[mockLiveClient] Serving ${
+          session ? session : "data/examples"
+        } on https://${host}:${port}/liveclientdata/`
+      );
+    })
+    .catch((err) => {
+      console.error("[mockLiveClient] Failed to start:", err);
+      process.exit(1);
+    });
+
+  const webhookAt = args.indexOf("--webhook");
+  if (webhookAt >= 0) {
+    const port = Number(args[webhookAt + 1]);
+    const receiver = new MockWebhookReceiver({
+      port: Number.isInteger(port) && port > 0 ? port : undefined,
+    });
+    receiver.on("tip", (tip: any, urlPath: string) => {
+      const t = Math.floor(Number(tip?.gameTime) || 0);
+      const clock = `${Math.floor(t / 60)}:${String(t % 60).padStart(2, "0")}`;
+      console.log(
+        `[webhook] ${urlPath} ${clock} ${String(tip?.severity || "")
+          .toUpperCase()
+          .padEnd(8)} ${tip?.id} ${tip?.title || ""}`
+      );
+    });
+    receiver
+      .start()
+      .then(({ host, port }) => {
+        console.log(
+          `[mockLiveClient] Webhook receiver on http://${host}:${port}/`
+        );
+      })
+      .catch((err) => {
+        console.error("[mockLiveClient] Webhook receiver failed:", err);
+        process.exit(1);
+      });
+  }
+}
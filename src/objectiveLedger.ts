@@ -0,0 +1,279 @@
+// Per-team ledger of epic-monster kills (dragons, herald, void grubs, baron,
+// atakhan) walked from eventdata, plus the spawn rules of each patch era so
+// timers follow the map the game is actually played on.
+
+export type TeamSide = "myTeam" | "enemyTeam";
+
+export type TeamContext = {
+  nameToTeam: Map<string, string>;
+  myTeam: string;
+};
+
+export type EpicObjective = "dragon" | "herald" | "grubs" | "baron" | "atakhan";
+
+export type LedgerEntry = {
+  objective: EpicObjective;
+  eventName: string;
+  eventId: number | null;
+  time: number;
+  killer: string;
+  killerTeam: string; // raw team from nameToTeam (ORDER/CHAOS), "" when unknown
+  team: TeamSide | null;
+  stolen: boolean;
+  assisters: string[];
+  dragonType?: string; // DragonKill only
+};
+
+// pre2024: Herald 8:00–19:45 with a 6:00 respawn, Baron 20:00
+// 2024:    Void Grubs 5:00 (two waves) until 13:45, Herald 14:00, Baron 20:00
+// 2025:    Void Grubs 8:00, Herald 16:00, Atakhan 20:00, Baron 25:00
+export type ObjectiveEra = "pre2024" | "2024" | "2025";
+
+type EraRules = {
+  herald: { firstSpawn: number; respawn: number | null; despawnAt: number };
+  grubs: {
+    firstSpawn: number;
+    respawn: number;
+    waves: number;
+    campSize: number;
+    despawnAt: number;
+  } | null;
+  atakhan: { firstSpawn: number } | null;
+  baron: { firstSpawn: number; respawn: number };
+};
+
+export const ERA_RULES: Record<ObjectiveEra, EraRules> = {
+  pre2024: {
+    herald: { firstSpawn: 480, respawn: 360, despawnAt: 1185 },
+    grubs: null,
+    atakhan: null,
+    baron: { firstSpawn: 1200, respawn: 360 },
+  },
+  "2024": {
+    herald: { firstSpawn: 840, respawn: null, despawnAt: 1185 },
+    grubs: {
+      firstSpawn: 300,
+      respawn: 240,
+      waves: 2,
+      campSize: 3,
+      despawnAt: 825,
+    },
+    atakhan: null,
+    baron: { firstSpawn: 1200, respawn: 360 },
+  },
+  "2025": {
+    herald: { firstSpawn: 960, respawn: null, despawnAt: 1485 },
+    grubs: {
+      firstSpawn: 480,
+      respawn: 0,
+      waves: 1,
+      campSize: 3,
+      despawnAt: 945,
+    },
+    atakhan: { firstSpawn: 1200 },
+    baron: { firstSpawn: 1500, respawn: 360 },
+  },
+};
+
+const LATEST_ERA: ObjectiveEra = "2025";
+
+const EVENT_OBJECTIVES: Record<string, EpicObjective> = {
+  DragonKill: "dragon",
+  HeraldKill: "herald",
+  HordeKill: "grubs",
+  BaronKill: "baron",
+  AtakhanKill: "atakhan",
+};
+
+// null = infer from the events seen so far
+let preferredEra: ObjectiveEra | null = null;
+
+export function configureObjectiveEra(era: ObjectiveEra | "auto" | undefined) {
+  preferredEra = era && era !== "auto" && era in ERA_RULES ? era : null;
+}
+
+export function resolveSide(
+  name: string | undefined,
+  teams?: TeamContext
+): TeamSide | null {
+  if (!name || !teams) return null;
+  const team = teams.nameToTeam.get(name);
+  if (!team) return null;
+  return team === teams.myTeam ? "myTeam" : "enemyTeam";
+}
+
+export function buildObjectiveLedger(
+  events: Array<any>,
+  teams?: TeamContext
+): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+  for (const ev of events || []) {
+    const objective = EVENT_OBJECTIVES[ev?.EventName];
+    if (!objective) continue;
+    const killer = String(ev.KillerName || "");
+    const entry: LedgerEntry = {
+      objective,
+      eventName: ev.EventName,
+      eventId: Number.isFinite(Number(ev.EventID)) ? Number(ev.EventID) : null,
+      time: Number(ev.EventTime) || 0,
+      killer,
+      killerTeam: (killer && teams?.nameToTeam.get(killer)) || "",
+      team: resolveSide(killer, teams),
+      stolen: String(ev.Stolen).toLowerCase() === "true",
+      assisters: Array.isArray(ev.Assisters) ? ev.Assisters.map(String) : [],
+    };
+    if (objective === "dragon") entry.dragonType = String(ev.DragonType || "");
+    entries.push(entry);
+  }
+  return entries.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * The Live Client API does not report the patch, so the era is taken from
+ * the settings override, else from objectives only some eras have (or have
+ * earlier), else the latest era.
+ */
+export function inferObjectiveEra(entries: LedgerEntry[]): ObjectiveEra {
+  if (preferredEra) return preferredEra;
+  const first = (o: EpicObjective) =>
+    entries.find((e) => e.objective === o)?.time;
+  if (first("atakhan") !== undefined) return "2025";
+  const grubs = first("grubs");
+  if (grubs !== undefined && grubs < ERA_RULES["2025"].grubs!.firstSpawn)
+    return "2024";
+  const herald = first("herald");
+  if (herald !== undefined && herald < ERA_RULES["2024"].herald.firstSpawn)
+    return "pre2024";
+  const baron = first("baron");
+  if (baron !== undefined && baron < ERA_RULES["2025"].baron.firstSpawn)
+    return grubs !== undefined ? "2024" : "pre2024";
+  return LATEST_ERA;
+}
+
+export type ObjectiveStatus = "upcoming" | "alive" | "gone";
+
+export type EpicTimer = {
+  nextSpawnTime: number;
+  despawnsAt: number | null;
+  status: ObjectiveStatus;
+  taken: Record<TeamSide, number>;
+  stolen: Record<TeamSide, number>;
+};
+
+function tally(
+  entries: LedgerEntry[],
+  objective: EpicObjective
+): Pick<EpicTimer, "taken" | "stolen"> {
+  const taken = { myTeam: 0, enemyTeam: 0 };
+  const stolen = { myTeam: 0, enemyTeam: 0 };
+  for (const e of entries) {
+    if (e.objective !== objective || !e.team) continue;
+    taken[e.team]++;
+    if (e.stolen) stolen[e.team]++;
+  }
+  return { taken, stolen };
+}
+
+function statusAt(
+  gameTimeSec: number,
+  nextSpawnTime: number,
+  despawnsAt: number | null,
+  gone: boolean
+): ObjectiveStatus {
+  if (gone || (despawnsAt !== null && gameTimeSec >= despawnsAt)) return "gone";
+  return gameTimeSec < nextSpawnTime ? "upcoming" : "alive";
+}
+
+/** Herald, void grub, Atakhan and Baron timers for the given era. */
+export function computeEpicTimers(
+  gameTimeSec: number,
+  entries: LedgerEntry[],
+  era: ObjectiveEra
+): {
+  herald: EpicTimer;
+  grubs: EpicTimer | null;
+  atakhan: EpicTimer | null;
+  baron: EpicTimer;
+} {
+  const rules = ERA_RULES[era];
+  const kills = (o: EpicObjective) => entries.filter((e) => e.objective === o);
+
+  // Herald: respawns until it despawns (pre2024) or spawns once
+  const heraldKills = kills("herald");
+  const lastHerald = heraldKills[heraldKills.length - 1];
+  const heraldNext = !lastHerald
+    ? rules.herald.firstSpawn
+    : rules.herald.respawn !== null
+    ? Math.min(rules.herald.despawnAt, lastHerald.time + rules.herald.respawn)
+    : lastHerald.time;
+  const heraldGone =
+    !!lastHerald &&
+    (rules.herald.respawn === null || heraldNext >= rules.herald.despawnAt);
+
+  // Void grubs: a wave is cleared after campSize kills; the next wave follows
+  // `respawn` seconds after the last grub of the previous one
+  let grubs: EpicTimer | null = null;
+  if (rules.grubs) {
+    const g = rules.grubs;
+    const grubKills = kills("grubs");
+    const wavesCleared = Math.min(
+      g.waves,
+      Math.floor(grubKills.length / g.campSize)
+    );
+    let next = g.firstSpawn;
+    let gone = false;
+    if (wavesCleared >= g.waves) {
+      next = grubKills[wavesCleared * g.campSize - 1].time;
+      gone = true;
+    } else if (wavesCleared > 0) {
+      next = grubKills[wavesCleared * g.campSize - 1].time + g.respawn;
+      gone = next >= g.despawnAt;
+    }
+    grubs = {
+      nextSpawnTime: next,
+      despawnsAt: g.despawnAt,
+      status: statusAt(gameTimeSec, next, g.despawnAt, gone),
+      ...tally(entries, "grubs"),
+    };
+  }
+
+  // Atakhan spawns once
+  let atakhan: EpicTimer | null = null;
+  if (rules.atakhan) {
+    const last = kills("atakhan").pop();
+    const next = last ? last.time : rules.atakhan.firstSpawn;
+    atakhan = {
+      nextSpawnTime: next,
+      despawnsAt: null,
+      status: statusAt(gameTimeSec, next, null, !!last),
+      ...tally(entries, "atakhan"),
+    };
+  }
+
+  const lastBaron = kills("baron").pop();
+  const baronNext = lastBaron
+    ? lastBaron.time + rules.baron.respawn
+    : rules.baron.firstSpawn;
+
+  return {
+    herald: {
+      nextSpawnTime: heraldNext,
+      despawnsAt: rules.herald.despawnAt,
+      status: statusAt(
+        gameTimeSec,
+        heraldNext,
+        rules.herald.despawnAt,
+        heraldGone
+      ),
+      ...tally(entries, "herald"),
+    },
+    grubs,
+    atakhan,
+    baron: {
+      nextSpawnTime: baronNext,
+      despawnsAt: null,
+      status: statusAt(gameTimeSec, baronNext, null, false),
+      ...tally(entries, "baron"),
+    },
+  };
+}
@@ -1,14 +1,70 @@
 import * as https from "https";
 import * as fs from "fs";
 import * as path from "path";
+import type { AllGameData } from "./liveclientTypes";
+import { computeDragonState, DragonState } from "./dragonTracker";
+import {
+  buildObjectiveLedger,
+  computeEpicTimers,
+  EpicTimer,
+  inferObjectiveEra,
+  LedgerEntry,
+  ObjectiveEra,
+  TeamContext,
+} from "./objectiveLedger";
+import { computeTeamBuffs, TeamBuff } from "./teamBuffs";
+import { computeDeathState, DeathState } from "./deathTracker";
+import type { SpellCooldown } from "./spellTracker";
+import type { SkillOrder } from "./skillOrder";
+import type { ItemTimeline } from "./itemTracker";
+import type { PollFailure } from "./connectionState";
+import { computeCsBenchmark, CsBenchmark, CsSample } from "./csBenchmark";
+import {
+  estimateTeamGold,
+  GoldSample,
+  TeamGoldEstimate,
+} from "./goldEstimate";
+import {
+  computeStructureState,
+  StructureState,
+  structureOwner,
+} from "./structures";
+
+const DEFAULT_LCU_HOST = "127.0.0.1";
+const DEFAULT_LCU_PORT = 2999;
+
+// Overridable so the app and tools can point at the mock Live Client server
+let LCU_HOST = process.env.PEWPEW_LIVE_HOST || DEFAULT_LCU_HOST;
+let LCU_PORT = Number(process.env.PEWPEW_LIVE_PORT) || DEFAULT_LCU_PORT;
+
+export function configureLiveClient(options: {
+  host?: string;
+  port?: number;
+}): void {
+  if (options.host) LCU_HOST = options.host;
+  if (typeof options.port === "number" && options.port > 0)
+    LCU_PORT = options.port;
+}
 
-const LCU_HOST = "127.0.0.1";
-const LCU_PORT = 2999;
+export function getLiveClientEndpoint(): { host: string; port: number } {
+  return { host: LCU_HOST, port: LCU_PORT };
+}
 
 const httpsAgent = new https.Agent({
   rejectUnauthorized: false,
 });
 
+// The API answers locally within milliseconds; a slow request means the game
+// is hung or loading, and shouldn't hold up the next poll
+const REQUEST_TIMEOUT_MS = 2000;
+
+/** A failed Live Client request, with why it failed (see connectionState). */
+export class LiveClientError extends Error {
+  constructor(message: string, readonly failure: PollFailure) {
+    super(message);
+  }
+}
+
 async function getJson<T>(pathname: string): Promise<T> {
   const options: https.RequestOptions = {
     hostname: LCU_HOST,
@@ -17,6 +73,7 @@ async function getJson<T>(pathname: string): Promise<T> {
     method: "GET",
     agent: httpsAgent,
     headers: { Accept: "application/json" },
+    timeout: REQUEST_TIMEOUT_MS,
   };
   return await new Promise<T>((resolve, reject) => {
     const req = https.request(options, (res) => {
@@ -29,18 +86,60 @@ async function getJson<T>(pathname: string): Promise<T> {
           resolve(JSON.parse(data) as T);
         } catch (err) {
           reject(
-            new Error(
-              `Failed to parse JSON from ${pathname}: ${(err as Error).message}`
+            new LiveClientError(
+              `Failed to parse JSON from ${pathname}: ${(err as Error).message}`,
+              "noData"
             )
           );
         }
       });
     });
-    req.on("error", (err) => reject(err));
+    req.on("timeout", () =>
+      req.destroy(
+        new LiveClientError(
+          `Live Client API did not answer within ${REQUEST_TIMEOUT_MS}ms`,
+          "timeout"
+        )
+      )
+    );
+    req.on("error", (err) =>
+      reject(
+        err instanceof LiveClientError
+          ? err
+          : new LiveClientError(err.message, "unreachable")
+      )
+    );
     req.end();
   });
 }
 
+export type ObjectiveTimer = EpicTimer & {
+  timeToSpawn: string;
+  despawnsIn: string | null;
+};
+
+export type AbilityState = {
+  name: string;
+  level: number;
+  // Data Dragon cooldown at the current rank reduced by ability haste
+  cooldownSec: number | null;
+};
+
+export type ActiveBuff = TeamBuff & { expiresIn: string };
+
+// The active player's gold, health and resource (mana, energy, …)
+export type PlayerVitals = {
+  gold: number;
+  health: number;
+  maxHealth: number;
+  healthPct: number; // 0–100
+  resource: number;
+  resourceMax: number;
+  resourcePct: number; // 0–100; 0 when the champion has no resource bar
+  resourceType: string; // MANA, ENERGY, NONE, …
+  dead: boolean;
+};
+
 export interface AggregatedSnapshot {
   error: boolean;
   message?: string;
@@ -51,6 +150,7 @@ export interface AggregatedSnapshot {
     champion: string;
     team: string;
     level: number;
+    position: string; // assigned position (TOP, JUNGLE, …); empty outside draft modes
   };
   runes: { keystone: string; primaryTree: string; secondaryTree: string };
   stats: {
@@ -63,10 +163,10 @@ export interface AggregatedSnapshot {
   items: (string | null)[]; // Array of 7 items indexed by slot (0-6), where 6 is trinket
   spells: { d: string; f: string };
   abilities: {
-    q: { name: string } | null;
-    w: { name: string } | null;
-    e: { name: string } | null;
-    r: { name: string } | null;
+    q: AbilityState | null;
+    w: AbilityState | null;
+    e: AbilityState | null;
+    r: AbilityState | null;
   };
   derived: {
     kda: string;
@@ -82,18 +182,13 @@ export interface AggregatedSnapshot {
     inhibs: { myTeam: number; enemyTeam: number };
   };
   objectives: {
-    dragon: {
-      nextSpawnTime: number;
-      timeToSpawn: string;
-      lastKillType: string | null;
-    };
-    herald: {
-      nextSpawnTime: number;
-      timeToSpawn: string;
-      despawnsAt: number;
-      despawnsIn: string;
-    };
-    baron: { nextSpawnTime: number; timeToSpawn: string };
+    era: ObjectiveEra;
+    dragon: DragonState & { timeToSpawn: string };
+    herald: ObjectiveTimer;
+    grubs: ObjectiveTimer | null; // null in eras without void grubs
+    atakhan: ObjectiveTimer | null; // null in eras without Atakhan
+    baron: ObjectiveTimer;
+    ledger: LedgerEntry[];
   };
   assets?: {
     version: string;
@@ -105,7 +200,19 @@ export interface AggregatedSnapshot {
       secondaryTree: string | null;
     };
   };
-  raw: { gameStats: any; events: Array<any> };
+  buffs: ActiveBuff[];
+  structures: StructureState;
+  deaths: DeathState;
+  vitals: PlayerVitals;
+  gold: TeamGoldEstimate; // estimated team gold (see goldEstimate.ts)
+  csBenchmark: CsBenchmark;
+  // Filled in by the main process from its trackers
+  spellCooldowns?: SpellCooldown[]; // enemy spells marked as used
+  skillOrder?: SkillOrder;
+  itemTimeline?: ItemTimeline; // purchases/sales and item gold per team
+  goldHistory?: GoldSample[]; // gold estimate over the match
+  csHistory?: CsSample[]; // your CS and the target curve over the match
+  raw: { gameStats: any; events: Array<any>; players: Array<any> };
 }
 
 type RiotGameModeEntry = { gameMode: string; description: string };
@@ -149,125 +256,103 @@ function secondsToClock(s: number): string {
   return `${sign}${m}:${sec}`;
 }
 
-function computeObjectiveTimers(gameTimeSec: number, events: Array<any>) {
-  const DRAGON_FIRST_SPAWN = 300; // 5:00
-  const DRAGON_RESPAWN = 300; // 5:00
-  const HERALD_FIRST_SPAWN = 480; // 8:00
-  const HERALD_RESPAWN = 360; // 6:00 (until 20:00)
-  const BARON_FIRST_SPAWN = 1200; // 20:00
-  const BARON_RESPAWN = 360; // 6:00
-
-  let lastDragonKill: any | null = null;
-  let lastHeraldKill: any | null = null;
-  let lastBaronKill: any | null = null;
-
-  for (const ev of events || []) {
-    if (ev.EventName === "DragonKill") lastDragonKill = ev;
-    if (ev.EventName === "HeraldKill") lastHeraldKill = ev;
-    if (ev.EventName === "BaronKill") lastBaronKill = ev;
+/** Player name (game name and summoner name) to team, for event attribution. */
+export function buildNameToTeam(players: Array<any>): Map<string, string> {
+  const nameToTeam = new Map<string, string>();
+  for (const p of players || []) {
+    if (p?.riotIdGameName) nameToTeam.set(p.riotIdGameName, p.team || "");
+    if (p?.summonerName) nameToTeam.set(p.summonerName, p.team || "");
   }
+  return nameToTeam;
+}
 
-  const nextDragonAt =
-    gameTimeSec < DRAGON_FIRST_SPAWN
-      ? DRAGON_FIRST_SPAWN
-      : lastDragonKill
-      ? lastDragonKill.EventTime + DRAGON_RESPAWN
-      : DRAGON_FIRST_SPAWN;
-
-  const heraldAvailableWindowEnd = BARON_FIRST_SPAWN;
-  const nextHeraldAt =
-    gameTimeSec < HERALD_FIRST_SPAWN
-      ? HERALD_FIRST_SPAWN
-      : Math.min(
-          heraldAvailableWindowEnd,
-          lastHeraldKill
-            ? lastHeraldKill.EventTime + HERALD_RESPAWN
-            : HERALD_FIRST_SPAWN
-        );
+function formatTimer(timer: EpicTimer, gameTimeSec: number): ObjectiveTimer {
+  return {
+    ...timer,
+    timeToSpawn: secondsToClock(timer.nextSpawnTime - gameTimeSec),
+    despawnsIn:
+      timer.despawnsAt !== null
+        ? secondsToClock(timer.despawnsAt - gameTimeSec)
+        : null,
+  };
+}
 
-  const nextBaronAt =
-    gameTimeSec < BARON_FIRST_SPAWN
-      ? BARON_FIRST_SPAWN
-      : lastBaronKill
-      ? lastBaronKill.EventTime + BARON_RESPAWN
-      : BARON_FIRST_SPAWN;
+/**
+ * Objective timers as of `gameTimeSec`. Pass `teams` to attribute kills to a
+ * side (ledger teams, dragon counts, soul point and soul).
+ */
+export function computeObjectiveTimers(
+  gameTimeSec: number,
+  events: Array<any>,
+  teams?: TeamContext
+): AggregatedSnapshot["objectives"] {
+  const ledger = buildObjectiveLedger(events, teams);
+  const era = inferObjectiveEra(ledger);
+  const epic = computeEpicTimers(gameTimeSec, ledger, era);
+  const dragon = computeDragonState(gameTimeSec, ledger);
 
   return {
+    era,
     dragon: {
-      nextSpawnTime: nextDragonAt,
-      timeToSpawn: secondsToClock(nextDragonAt - gameTimeSec),
-      lastKillType: lastDragonKill?.DragonType || null,
-    },
-    herald: {
-      nextSpawnTime: nextHeraldAt,
-      timeToSpawn: secondsToClock(nextHeraldAt - gameTimeSec),
-      despawnsAt: heraldAvailableWindowEnd,
-      despawnsIn: secondsToClock(heraldAvailableWindowEnd - gameTimeSec),
-    },
-    baron: {
-      nextSpawnTime: nextBaronAt,
-      timeToSpawn: secondsToClock(nextBaronAt - gameTimeSec),
+      ...dragon,
+      timeToSpawn: secondsToClock(dragon.nextSpawnTime - gameTimeSec),
     },
+    herald: formatTimer(epic.herald, gameTimeSec),
+    grubs: epic.grubs ? formatTimer(epic.grubs, gameTimeSec) : null,
+    atakhan: epic.atakhan ? formatTimer(epic.atakhan, gameTimeSec) : null,
+    baron: formatTimer(epic.baron, gameTimeSec),
+    ledger,
   };
 }
 
-export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
-  // Lazy import Data Dragon helpers to avoid any cyclic/bundle issues
-  const ddragon = await import("./datadragon");
-  // Core datasets (Riot docs: Live Client Data API)
-  // https://developer.riotgames.com/docs/lol (Live Client Data API)
-  const [gameStats, eventsWrap, activePlayerName, playersRaw] =
-    await Promise.all([
-      getJson<any>("/liveclientdata/gamestats"),
-      getJson<any>("/liveclientdata/eventdata").then((d) => d.Events || []),
-      getJson<
-        | string
-        | { riotId?: string; riotIdGameName?: string; riotIdTagLine?: string }
-      >("/liveclientdata/activeplayername"),
-      getJson<Array<any> | any>("/liveclientdata/playerlist"),
-    ]);
-
-  const events: Array<any> = eventsWrap;
-  // Coerce players to a safe array to avoid "is not iterable" scenarios when not in a game
-  const players: Array<any> = Array.isArray(playersRaw) ? playersRaw : [];
-
-  // Normalize active player identity (supports legacy and RiotID formats)
-  const apIsString = typeof activePlayerName === "string";
-  const apString: string = apIsString ? (activePlayerName as string) : "";
+/** Baron / Elder buffs still held by a team at `gameTimeSec`. */
+export function computeActiveBuffs(
+  gameTimeSec: number,
+  ledger: LedgerEntry[],
+  events: Array<any>,
+  players: Array<any>
+): ActiveBuff[] {
+  return computeTeamBuffs(gameTimeSec, ledger, events, players).map((b) => ({
+    ...b,
+    expiresIn: secondsToClock(b.expiresAt - gameTimeSec),
+  }));
+}
+
+function buildFullRiotId(p: any): string {
+  // Prefer explicit riotId if provided
+  if (typeof p?.riotId === "string" && p.riotId.includes("#")) return p.riotId;
+  // Compose from gameName + tag if present
+  if (p?.riotIdGameName && p?.riotIdTagLine) {
+    return `${p.riotIdGameName}#${p.riotIdTagLine}`;
+  }
+  // Legacy single-name fallback
+  return p?.summonerName || "";
+}
+
+function normalizeIdString(s: string | null | undefined): string {
+  return (s || "").trim().toLowerCase();
+}
+
+// Active player identity and their allPlayers entry (supports legacy and RiotID formats)
+function resolveActivePlayer(all: AllGameData) {
+  const players: Array<any> = Array.isArray(all?.allPlayers)
+    ? all.allPlayers
+    : [];
+  const apString: string =
+    all?.activePlayer?.riotId || all?.activePlayer?.summonerName || "";
   const apRiotIdFromString = apString.includes("#") ? apString : "";
-  const apGameNameFromString = apRiotIdFromString
-    ? apRiotIdFromString.split("#")[0]
-    : apString;
-  const apTagFromString = apRiotIdFromString
-    ? apRiotIdFromString.split("#")[1]
-    : "";
   const apGameName =
-    (!apIsString && activePlayerName?.riotIdGameName) ||
-    apGameNameFromString ||
+    all?.activePlayer?.riotIdGameName ||
+    (apRiotIdFromString ? apRiotIdFromString.split("#")[0] : apString) ||
     "";
   const apTagLine =
-    (!apIsString && activePlayerName?.riotIdTagLine) || apTagFromString || "";
+    all?.activePlayer?.riotIdTagLine ||
+    (apRiotIdFromString ? apRiotIdFromString.split("#")[1] : "") ||
+    "";
   const apFullRiotId =
-    (!apIsString && activePlayerName?.riotId) ||
+    apRiotIdFromString ||
     (apGameName && apTagLine ? `${apGameName}#${apTagLine}` : "");
 
-  const myName = apGameName;
-
-  function normalizeIdString(s: string | null | undefined): string {
-    return (s || "").trim().toLowerCase();
-  }
-  function buildFullRiotId(p: any): string {
-    // Prefer explicit riotId if provided
-    if (typeof p?.riotId === "string" && p.riotId.includes("#"))
-      return p.riotId;
-    // Compose from gameName + tag if present
-    if (p?.riotIdGameName && p?.riotIdTagLine) {
-      return `${p.riotIdGameName}#${p.riotIdTagLine}`;
-    }
-    // Legacy single-name fallback
-    return p?.summonerName || "";
-  }
-
   let me: any | null = null;
   for (const p of players) {
     const pFull = buildFullRiotId(p);
@@ -279,16 +364,6 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
       me = p;
       break;
     }
-    // Fallback: match gameName + tag when both present
-    if (
-      !me &&
-      apGameName &&
-      apTagLine &&
-      normalizeIdString(p.riotIdGameName) === normalizeIdString(apGameName) &&
-      normalizeIdString(p.riotIdTagLine) === normalizeIdString(apTagLine)
-    ) {
-      me = p;
-    }
     // Fallback: match by gameName only (may collide in rare cases)
     if (
       !me &&
@@ -308,126 +383,54 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
     }
   }
   if (!me && players.length) me = players[0];
+  return { players, me, apString, apGameName, apFullRiotId };
+}
 
-  // Prepare riotId candidates (full RiotID, gameName#tag, gameName, legacy summonerName, active string)
-  const riotIdCandidates = Array.from(
-    new Set(
-      [
-        apFullRiotId,
-        buildFullRiotId(me),
-        me?.riotIdGameName && me?.riotIdTagLine
-          ? `${me.riotIdGameName}#${me.riotIdTagLine}`
-          : "",
-        me?.riotIdGameName || "",
-        me?.summonerName || "",
-        apString || "",
-      ]
-        .filter(Boolean)
-        .map((s) => (s as string).trim())
-    )
-  ) as string[];
-
-  async function fetchWithRiotIdFallback<T>(
-    buildPath: (id: string) => string
-  ): Promise<{ data: T | null; usedId: string | null }> {
-    for (const id of riotIdCandidates) {
-      try {
-        const data = await getJson<T>(buildPath(id));
-        return { data, usedId: id };
-      } catch {
-        // try next candidate
-      }
-    }
-    return { data: null, usedId: null };
-  }
-
-  const [activePlayer, myScores, myItems, mySpells, myRunes, myAbilities] =
-    await Promise.all([
-      getJson<any>("/liveclientdata/activeplayer").catch(() => null),
-      // Scores/items/spells/runes with riotId fallbacks
-      (async () => {
-        const res = await fetchWithRiotIdFallback<any>(
-          (id) =>
-            `/liveclientdata/playerscores?riotId=${encodeURIComponent(id)}`
-        );
-        // Attach the resolved id on the function object for later read
-        (res as any).__usedId = res.usedId;
-        return res.data;
-      })(),
-      (async () => {
-        const res = await fetchWithRiotIdFallback<any>(
-          (id) => `/liveclientdata/playeritems?riotId=${encodeURIComponent(id)}`
-        );
-        (res as any).__usedId = res.usedId;
-        // API returns array directly, but handle both cases
-        let items = res.data;
-        if (
-          items &&
-          !Array.isArray(items) &&
-          items.data &&
-          Array.isArray(items.data)
-        ) {
-          items = items.data;
-        }
-        if (!Array.isArray(items)) {
-          items = [];
+/**
+ * Build the dashboard snapshot from a single /liveclientdata/allgamedata
+ * payload. Set `assets: false` to skip Data Dragon lookups (offline tools).
+ */
+export async function buildAggregatedSnapshot(
+  all: AllGameData,
+  options: { assets?: boolean } = {}
+): Promise<AggregatedSnapshot> {
+  const gameStats: any = all?.gameData || {};
+  const events: Array<any> = Array.isArray(all?.events?.Events)
+    ? all.events.Events
+    : [];
+  const { players, me, apString, apGameName, apFullRiotId } =
+    resolveActivePlayer(all);
+  const myName = apGameName;
+  const activePlayer: any = all?.activePlayer || null;
+  const myScores: any = me?.scores || null;
+  const myItems: any[] = Array.isArray(me?.items) ? me.items : [];
+  const mySpells: any = me?.summonerSpells || null;
+  const fullRunes: any = activePlayer?.fullRunes;
+  const myRunes: any =
+    me?.runes ||
+    (fullRunes?.keystone
+      ? {
+          keystone: fullRunes.keystone,
+          primaryRuneTree: fullRunes.primaryRuneTree,
+          secondaryRuneTree: fullRunes.secondaryRuneTree,
         }
-        return items;
-      })(),
-      (async () => {
-        const res = await fetchWithRiotIdFallback<any>(
-          (id) =>
-            `/liveclientdata/playersummonerspells?riotId=${encodeURIComponent(
-              id
-            )}`
-        );
-        (res as any).__usedId = res.usedId;
-        return res.data;
-      })(),
-      (async () => {
-        const res = await fetchWithRiotIdFallback<any>(
-          (id) =>
-            `/liveclientdata/playermainrunes?riotId=${encodeURIComponent(id)}`
-        );
-        (res as any).__usedId = res.usedId;
-        return res.data;
-      })(),
-      // Not always documented, but widely present for active player:
-      getJson<any>("/liveclientdata/activeplayerabilities").catch(() => null),
-    ]);
-
-  // Determine which candidate actually worked (prefer the one from items → most visible to user)
-  let resolvedRiotId: string | null = null;
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const rItems = myItems as any;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const rScores = myScores as any;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const rSpells = mySpells as any;
-    resolvedRiotId =
-      (rItems && rItems.__usedId) ||
-      (rScores && rScores.__usedId) ||
-      (rSpells && rSpells.__usedId) ||
-      null;
-  } catch {
-    // ignore
-  }
-
-  const objectiveTimers = computeObjectiveTimers(gameStats.gameTime, events);
+      : null);
+  const myAbilities: any = activePlayer?.abilities || null;
+  const resolvedRiotId: string | null = me ? buildFullRiotId(me) || null : null;
 
   // Build name->team map for event attribution
-  const nameToTeam = new Map<string, string>();
-  for (const p of players) {
-    if (p.riotIdGameName) nameToTeam.set(p.riotIdGameName, p.team || "");
-    if (p.summonerName) nameToTeam.set(p.summonerName, p.team || "");
-  }
+  const nameToTeam = buildNameToTeam(players);
   const myTeam = me?.team || "";
   const otherTeams = new Set<string>(
     players.map((p: any) => p.team).filter((t: string) => t && t !== myTeam)
   );
   const enemyTeam = otherTeams.size ? Array.from(otherTeams)[0] : null;
 
+  const objectiveTimers = computeObjectiveTimers(gameStats.gameTime, events, {
+    nameToTeam,
+    myTeam,
+  });
+
   // Tally events for team scores and structures
   let teamKills = 0;
   let enemyKills = 0;
@@ -441,20 +444,24 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
       if (killerTeam === myTeam) teamKills++;
       else if (enemyTeam && killerTeam === enemyTeam) enemyKills++;
     }
-    if (ev.EventName === "TurretKilled") {
-      // If KillerName available, attribute; otherwise best-effort by using shutdown team if present
-      const killerTeam = ev.KillerName
-        ? nameToTeam.get(ev.KillerName) || ""
-        : "";
-      if (killerTeam === myTeam) myTurrets++;
-      else if (enemyTeam && killerTeam === enemyTeam) enemyTurrets++;
-    }
-    if (ev.EventName === "InhibKilled") {
-      const killerTeam = ev.KillerName
+    if (ev.EventName === "TurretKilled" || ev.EventName === "InhibKilled") {
+      // The structure ID names its owner, which also covers minion kills;
+      // fall back to the killer's team for IDs we can't read
+      const owner = structureOwner(ev.TurretKilled || ev.InhibKilled);
+      const killerTeam = owner
+        ? owner === "ORDER"
+          ? "CHAOS"
+          : "ORDER"
+        : ev.KillerName
         ? nameToTeam.get(ev.KillerName) || ""
         : "";
-      if (killerTeam === myTeam) myInhibs++;
-      else if (enemyTeam && killerTeam === enemyTeam) enemyInhibs++;
+      if (ev.EventName === "TurretKilled") {
+        if (killerTeam === myTeam) myTurrets++;
+        else if (enemyTeam && killerTeam === enemyTeam) enemyTurrets++;
+      } else {
+        if (killerTeam === myTeam) myInhibs++;
+        else if (enemyTeam && killerTeam === enemyTeam) enemyInhibs++;
+      }
     }
   }
 
@@ -468,16 +475,21 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
     ((myScores?.wardScore ?? 0) / minutes).toFixed(2)
   );
 
-  // Data Dragon assets (icons)
+  // Data Dragon assets (icons) and ability cooldowns
   let assets: AggregatedSnapshot["assets"] | undefined;
+  let abilityCooldowns: number[][] = [];
   let version: string | null = null;
-  try {
-    version = await ddragon.getLatestVersion();
-  } catch (e) {
-    console.error(
-      "[getAggregatedSnapshot] Failed to get Data Dragon version:",
-      e
-    );
+  // Lazy import Data Dragon helpers to avoid any cyclic/bundle issues
+  const ddragon = await import("./datadragon");
+  if (options.assets !== false) {
+    try {
+      version = await ddragon.getLatestVersion();
+    } catch (e) {
+      console.error(
+        "[buildAggregatedSnapshot] Failed to get Data Dragon version:",
+        e
+      );
+    }
   }
 
   if (version) {
@@ -493,9 +505,14 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
       championIconUrl = champId
         ? ddragon.buildChampionSquareUrl(version, champId)
         : null;
+      if (champId && myAbilities) {
+        abilityCooldowns = await ddragon
+          .ensureChampionSpellCooldowns(champId)
+          .catch(() => []);
+      }
     } catch (e) {
       console.error(
-        "[getAggregatedSnapshot] Failed to build champion icon:",
+        "[buildAggregatedSnapshot] Failed to build champion icon:",
         e
       );
       championIconUrl = null;
@@ -515,7 +532,10 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
         }
       }
     } catch (e) {
-      console.error("[getAggregatedSnapshot] Failed to build item icons:", e);
+      console.error(
+        "[buildAggregatedSnapshot] Failed to build item icons:",
+        e
+      );
     }
     const itemIconUrls = itemIconUrlsBySlot;
 
@@ -547,13 +567,16 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
           : null,
       };
     } catch (e) {
-      console.error("[getAggregatedSnapshot] Failed to build rune icons:", e);
+      console.error(
+        "[buildAggregatedSnapshot] Failed to build rune icons:",
+        e
+      );
     }
 
     assets = { version, championIconUrl, itemIconUrls, runeIcons };
-  } else {
+  } else if (options.assets !== false) {
     console.warn(
-      "[getAggregatedSnapshot] No version available, skipping assets"
+      "[buildAggregatedSnapshot] No version available, skipping assets"
     );
   }
 
@@ -570,6 +593,7 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
       champion: me?.championName || "",
       team: me?.team || "",
       level: me?.level || 0,
+      position: me?.position || "",
     },
     runes: {
       keystone: myRunes?.keystone?.displayName || "",
@@ -612,7 +636,7 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
         }
       } else {
         console.warn(
-          "[getAggregatedSnapshot] myItems is not an array:",
+          "[buildAggregatedSnapshot] myItems is not an array:",
           myItems
         );
       }
@@ -622,199 +646,161 @@ export async function getAggregatedSnapshot(): Promise<AggregatedSnapshot> {
       d: mySpells?.summonerSpellOne?.displayName || "",
       f: mySpells?.summonerSpellTwo?.displayName || "",
     },
-    abilities: {
-      q: myAbilities?.Q ? { name: myAbilities.Q.displayName || "Q" } : null,
-      w: myAbilities?.W ? { name: myAbilities.W.displayName || "W" } : null,
-      e: myAbilities?.E ? { name: myAbilities.E.displayName || "E" } : null,
-      r: myAbilities?.R ? { name: myAbilities.R.displayName || "R" } : null,
-    },
+    abilities: (() => {
+      const haste = Number(activePlayer?.championStats?.abilityHaste) || 0;
+      const ability = (key: "Q" | "W" | "E" | "R", index: number) => {
+        const a = myAbilities?.[key];
+        if (!a) return null;
+        const level = Number(a.abilityLevel) || 0;
+        const base = level > 0 ? abilityCooldowns[index]?.[level - 1] : null;
+        return {
+          name: a.displayName || key,
+          level,
+          cooldownSec:
+            typeof base === "number"
+              ? Math.round(((base * 100) / (100 + haste)) * 10) / 10
+              : null,
+        };
+      };
+      return {
+        q: ability("Q", 0),
+        w: ability("W", 1),
+        e: ability("E", 2),
+        r: ability("R", 3),
+      };
+    })(),
     objectives: objectiveTimers,
+    buffs: computeActiveBuffs(
+      gameStats.gameTime,
+      objectiveTimers.ledger,
+      events,
+      players
+    ),
+    structures: computeStructureState(gameStats.gameTime, events, myTeam),
+    deaths: computeDeathState(gameStats.gameTime, players, myTeam),
+    vitals: (() => {
+      const stats: any = activePlayer?.championStats || {};
+      const pct = (value: number, max: number) =>
+        max > 0 ? Math.round((value / max) * 100) : 0;
+      const health = Number(stats.currentHealth) || 0;
+      const maxHealth = Number(stats.maxHealth) || 0;
+      const resource = Number(stats.resourceValue) || 0;
+      const resourceMax = Number(stats.resourceMax) || 0;
+      return {
+        gold: Math.floor(Number(activePlayer?.currentGold) || 0),
+        health,
+        maxHealth,
+        healthPct: pct(health, maxHealth),
+        resource,
+        resourceMax,
+        resourcePct: pct(resource, resourceMax),
+        resourceType: String(stats.resourceType || ""),
+        dead: !!me?.isDead,
+      };
+    })(),
+    gold: estimateTeamGold(
+      gameStats.gameTime,
+      players,
+      events,
+      objectiveTimers.ledger,
+      myTeam
+    ),
+    csBenchmark: computeCsBenchmark(
+      gameStats.gameTime,
+      myScores?.creepScore ?? 0,
+      me?.position
+    ),
     assets,
     raw: {
       gameStats,
       events,
+      players,
     },
   };
   return snapshot;
 }
 
-export async function getRawDump(): Promise<Record<string, any>> {
-  const [gameStats, eventsWrap, activePlayerName, playersRaw, allGameData] =
-    await Promise.all([
-      getJson<any>("/liveclientdata/gamestats").catch((e) => ({
-        error: String(e),
-      })),
-      getJson<any>("/liveclientdata/eventdata")
-        .then((d) => d.Events || [])
-        .catch((e) => ({ error: String(e) })),
-      getJson<
-        | string
-        | { riotId?: string; riotIdGameName?: string; riotIdTagLine?: string }
-      >("/liveclientdata/activeplayername").catch((e) => ({
-        error: String(e),
-      })),
-      getJson<Array<any> | any>("/liveclientdata/playerlist").catch((e) => ({
-        error: String(e),
-      })),
-      getJson<any>("/liveclientdata/allgamedata").catch((e) => ({
-        error: String(e),
-      })),
-    ]);
-
-  const players: Array<any> = Array.isArray(playersRaw) ? playersRaw : [];
-
-  const apIsString = typeof activePlayerName === "string";
-  const apString: string = apIsString ? (activePlayerName as string) : "";
-  const apRiotIdFromString = apString.includes("#") ? apString : "";
-  const apGameNameFromString = apRiotIdFromString
-    ? apRiotIdFromString.split("#")[0]
-    : apString;
-  const apTagFromString = apRiotIdFromString
-    ? apRiotIdFromString.split("#")[1]
-    : "";
-  const apGameName =
-    (!apIsString && (activePlayerName as any)?.riotIdGameName) ||
-    apGameNameFromString ||
-    "";
-  const apTagLine =
-    (!apIsString && (activePlayerName as any)?.riotIdTagLine) ||
-    apTagFromString ||
-    "";
-  const apFullRiotId =
-    (!apIsString && (activePlayerName as any)?.riotId) ||
-    (apGameName && apTagLine ? `${apGameName}#${apTagLine}` : "");
-
-  function buildFullRiotId(p: any): string {
-    if (typeof p?.riotId === "string" && p.riotId.includes("#"))
-      return p.riotId;
-    if (p?.riotIdGameName && p?.riotIdTagLine) {
-      return `${p.riotIdGameName}#${p.riotIdTagLine}`;
-    }
-    return p?.summonerName || "";
-  }
-
-  const me =
-    players.find((p) => buildFullRiotId(p) === apFullRiotId) ||
-    players.find(
-      (p) => p.riotIdGameName === apGameName && p.riotIdTagLine === apTagLine
-    ) ||
-    players.find((p) => p.riotIdGameName === apGameName) ||
-    players.find((p) => p.summonerName === apString) ||
-    players[0] ||
-    null;
-
+// Per-endpoint view of an allgamedata payload for the dashboard scoreboard and
+// the raw viewer; mirrors the shape of the individual /liveclientdata routes.
+export function buildRawDump(all: AllGameData): Record<string, any> {
+  const { players, me, apString } = resolveActivePlayer(all);
   const myRiotId = me ? buildFullRiotId(me) : null;
-
-  type FetchLog<T> = {
-    data: T | null;
-    usedUrl: string | null;
-    attempted: string[];
+  const source = "/liveclientdata/allgamedata";
+  const perPlayer = (name: string, data: unknown) => {
+    const url = myRiotId
+      ? `/liveclientdata/${name}?riotId=${encodeURIComponent(myRiotId)}`
+      : null;
+    return {
+      usedUrl: url,
+      attempted: url ? [url] : [],
+      derivedFrom: source,
+      data,
+    };
   };
-  async function fetchWithRiotIdFallbackLogged<T>(
-    buildPath: (id: string) => string,
-    candidates: string[]
-  ): Promise<FetchLog<T>> {
-    const attempted: string[] = [];
-    for (const id of candidates) {
-      const path = buildPath(id);
-      attempted.push(path);
-      try {
-        const data = await getJson<T>(path);
-        return { data, usedUrl: path, attempted };
-      } catch {
-        // try next
-      }
-    }
-    return { data: null, usedUrl: null, attempted };
-  }
-
-  const riotIdCandidates = Array.from(
-    new Set(
-      [
-        myRiotId,
-        apFullRiotId,
-        me?.riotIdGameName && me?.riotIdTagLine
-          ? `${me.riotIdGameName}#${me.riotIdTagLine}`
-          : "",
-        me?.riotIdGameName || "",
-        me?.summonerName || "",
-        apString || "",
-      ]
-        .filter(Boolean)
-        .map((s) => (s as string).trim())
-    )
-  ) as string[];
-
-  const [activePlayer, scoresLog, itemsLog, spellsLog, myAbilities, runesLog] =
-    await Promise.all([
-      getJson<any>("/liveclientdata/activeplayer").catch((e) => ({
-        error: String(e),
-      })),
-      fetchWithRiotIdFallbackLogged<any>(
-        (id) => `/liveclientdata/playerscores?riotId=${encodeURIComponent(id)}`,
-        riotIdCandidates
-      ),
-      fetchWithRiotIdFallbackLogged<any[]>(
-        (id) => `/liveclientdata/playeritems?riotId=${encodeURIComponent(id)}`,
-        riotIdCandidates
-      ),
-      fetchWithRiotIdFallbackLogged<any>(
-        (id) =>
-          `/liveclientdata/playersummonerspells?riotId=${encodeURIComponent(
-            id
-          )}`,
-        riotIdCandidates
-      ),
-      getJson<any>("/liveclientdata/activeplayerabilities").catch((e) => ({
-        error: String(e),
-      })),
-      fetchWithRiotIdFallbackLogged<any>(
-        (id) =>
-          `/liveclientdata/playermainrunes?riotId=${encodeURIComponent(id)}`,
-        riotIdCandidates
-      ),
-    ]);
-
   return {
     meta: {
       resolvedMyRiotId: myRiotId,
       resolvedPlayer: me,
-      riotIdCandidates,
+      riotIdCandidates: myRiotId ? [myRiotId] : [],
     },
     endpoints: {
-      allgamedata: { url: "/liveclientdata/allgamedata", data: allGameData },
-      gamestats: { url: "/liveclientdata/gamestats", data: gameStats },
-      eventdata: { url: "/liveclientdata/eventdata", data: eventsWrap },
-      activeplayername: {
-        url: "/liveclientdata/activeplayername",
-        data: activePlayerName,
+      allgamedata: { url: source, data: all },
+      gamestats: {
+        url: "/liveclientdata/gamestats",
+        derivedFrom: source,
+        data: all?.gameData ?? null,
       },
-      playerlist: { url: "/liveclientdata/playerlist", data: playersRaw },
-      activeplayer: { url: "/liveclientdata/activeplayer", data: activePlayer },
-      activeplayerabilities: {
-        url: "/liveclientdata/activeplayerabilities",
-        data: myAbilities,
+      eventdata: {
+        url: "/liveclientdata/eventdata",
+        derivedFrom: source,
+        data: all?.events?.Events ?? [],
       },
-      playermainrunes: {
-        usedUrl: runesLog.usedUrl,
-        attempted: runesLog.attempted,
-        data: runesLog.data,
+      activeplayername: {
+        url: "/liveclientdata/activeplayername",
+        derivedFrom: source,
+        data: apString,
       },
-      playerscores: {
-        usedUrl: scoresLog.usedUrl,
-        attempted: scoresLog.attempted,
-        data: scoresLog.data,
+      playerlist: {
+        url: "/liveclientdata/playerlist",
+        derivedFrom: source,
+        data: players,
       },
-      playeritems: {
-        usedUrl: itemsLog.usedUrl,
-        attempted: itemsLog.attempted,
-        data: itemsLog.data,
+      activeplayer: {
+        url: "/liveclientdata/activeplayer",
+        derivedFrom: source,
+        data: all?.activePlayer ?? null,
       },
-      playersummonerspells: {
-        usedUrl: spellsLog.usedUrl,
-        attempted: spellsLog.attempted,
-        data: spellsLog.data,
+      activeplayerabilities: {
+        url: "/liveclientdata/activeplayerabilities",
+        derivedFrom: source,
+        data: all?.activePlayer?.abilities ?? null,
       },
+      playermainrunes: perPlayer("playermainrunes", me?.runes ?? null),
+      playerscores: perPlayer("playerscores", me?.scores ?? null),
+      playeritems: perPlayer("playeritems", me?.items ?? []),
+      playersummonerspells: perPlayer(
+        "playersummonerspells",
+        me?.summonerSpells ?? null
+      ),
     },
   };
 }
+
+/** One round-trip to the Live Client API: raw payload plus both derived views. */
+export async function fetchLiveClientTick(): Promise<{
+  allGameData: AllGameData;
+  snapshot: AggregatedSnapshot;
+  rawDump: Record<string, any>;
+}> {
+  const allGameData = await getJson<AllGameData>(
+    "/liveclientdata/allgamedata"
+  );
+  if (!allGameData || !allGameData.gameData) {
+    throw new LiveClientError(
+      "Live Client API returned no game data",
+      "noData"
+    );
+  }
+  const snapshot = await buildAggregatedSnapshot(allGameData);
+  return { allGameData, snapshot, rawDump: buildRawDump(allGameData) };
+}
@@ -0,0 +1,97 @@
+import * as crypto from "crypto";
+
+// Throwaway self-signed certificate for the mock Live Client server. The real
+// API serves a self-signed certificate too (the client doesn't verify it), so
+// all the mock needs is a fresh EC key and a minimal X.509 v3 certificate for
+// localhost / 127.0.0.1, encoded by hand to avoid an openssl dependency.
+
+// DER length: short form below 128, else 0x80 | byte count, then the bytes
+function derLength(len: number): Buffer {
+  if (len < 0x80) return Buffer.from([len]);
+  const bytes: number[] = [];
+  for (let n = len; n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+}
+
+const sequence = (...items: Buffer[]) => der(0x30, ...items);
+const set = (...items: Buffer[]) => der(0x31, ...items);
+const explicit = (n: number, item: Buffer) => der(0xa0 | n, item);
+
+function oid(dotted: string): Buffer {
+  const [a, b, ...rest] = dotted.split(".").map(Number);
+  const bytes = [a * 40 + b];
+  for (const part of rest) {
+    const chunk = [part & 0x7f];
+    for (let n = part >> 7; n > 0; n >>= 7) chunk.unshift(0x80 | (n & 0x7f));
+    bytes.push(...chunk);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+// Positive INTEGER: prefix a zero byte when the high bit is set
+function integer(bytes: Buffer): Buffer {
+  const positive =
+    bytes[0] & 0x80 ? Buffer.concat([Buffer.from([0]), bytes]) : bytes;
+  return der(0x02, positive);
+}
+
+function utcTime(date: Date): Buffer {
+  // 2024-05-01T12:00:00.000Z → 240501120000Z
+  const text = `${date.toISOString().replace(/[-:T]/g, "").slice(2, 14)}Z`;
+  return der(0x17, Buffer.from(text, "ascii"));
+}
+
+function commonName(cn: string): Buffer {
+  return sequence(set(sequence(oid("2.5.4.3"), der(0x0c, Buffer.from(cn)))));
+}
+
+export type SelfSignedCert = { key: string; cert: string };
+
+/** PEM key and certificate for localhost, valid from yesterday for `days`. */
+export function createSelfSignedCert(days = 30): SelfSignedCert {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", {
+    namedCurve: "prime256v1",
+  });
+  const ecdsaWithSha256 = sequence(oid("1.2.840.10045.4.3.2"));
+  const now = Date.now();
+  const name = commonName("localhost");
+  // subjectAltName: DNS localhost, IP 127.0.0.1
+  const altNames = sequence(
+    der(0x82, Buffer.from("localhost")),
+    der(0x87, Buffer.from([127, 0, 0, 1]))
+  );
+  const tbs = sequence(
+    explicit(0, integer(Buffer.from([2]))), // v3
+    integer(crypto.randomBytes(8)),
+    ecdsaWithSha256,
+    name,
+    sequence(
+      utcTime(new Date(now - 24 * 3600 * 1000)),
+      utcTime(new Date(now + days * 24 * 3600 * 1000))
+    ),
+    name,
+    publicKey.export({ type: "spki", format: "der" }),
+    explicit(3, sequence(sequence(oid("2.5.29.17"), der(0x04, altNames))))
+  );
+  const signature = crypto.sign("sha256", tbs, privateKey);
+  const certDer = sequence(
+    tbs,
+    ecdsaWithSha256,
+    der(0x03, Buffer.from([0]), signature)
+  );
+  const lines = certDer.toString("base64").match(/.{1,64}/g) || [];
+  return {
+    key: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    cert: [
+      "-----BEGIN CERTIFICATE-----",
+      ...lines,
+      "-----END CERTIFICATE-----",
+      "",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+
+// Recorded sessions are newline-delimited JSON (optionally gzip-compressed):
+// one header line followed by one frame line per poll.
+
+export interface SessionHeader {
+  type: "header";
+  version: 1;
+  recordedAt: string; // ISO timestamp of the first poll
+  source?: string; // host:port the responses were captured from
+  gameMode?: string;
+}
+
+export interface SessionFrame {
+  type: "frame";
+  wallClock: number; // Date.now() when the poll completed
+  gameTime: number; // gamestats.gameTime at the time of the poll
+  // Raw Live Client payloads keyed by request path (including query string)
+  responses: Record<string, unknown>;
+}
+
+export interface RecordedSession {
+  header: SessionHeader | null;
+  frames: SessionFrame[];
+}
+
+export function parseSessionText(text: string): RecordedSession {
+  let header: SessionHeader | null = null;
+  const frames: SessionFrame[] = [];
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    let entry: any;
+    try {
+      entry = JSON.parse(trimmed);
+    } catch {
+      // a truncated trailing line is expected if the app crashed mid-write
+      continue;
+    }
+    if (entry?.type === "header") header = entry as SessionHeader;
+    else if (entry?.type === "frame" && typeof entry.gameTime === "number")
+      frames.push(entry as SessionFrame);
+  }
+  frames.sort((a, b) => a.gameTime - b.gameTime);
+  return { header, frames };
+}
+
+export function readSessionFile(filePath: string): RecordedSession {
+  const buf = fs.readFileSync(filePath);
+  // gzip magic bytes; fall back to plain text for hand-written sessions
+  const isGzip = buf.length > 2 && buf[0] === 0x1f && buf[1] === 0x8b;
+  let text: string;
+  if (isGzip) {
+    // finishFlush lets us read files whose gzip stream was never closed
+    text = zlib
+      .gunzipSync(buf, { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+      .toString("utf8");
+  } else {
+    text = buf.toString("utf8");
+  }
+  return parseSessionText(text);
+}
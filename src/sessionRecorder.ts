@@ -0,0 +1,189 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { SessionFrame, SessionHeader } from "./sessionFile";
+
+// Writes each poll's raw Live Client responses to a gzip-compressed JSONL file,
+// one file per match, so any game can be replayed through the mock server.
+
+export interface SessionRecorderOptions {
+  dir: string;
+  maxFileBytes?: number; // stop recording a match once its file reaches this size
+  maxTotalBytes?: number; // prune oldest recordings beyond this total size
+  keep?: number; // prune oldest recordings beyond this count
+  source?: string;
+}
+
+export const RECORDING_EXTENSION = ".jsonl.gz";
+
+// A gap this long without a successful poll ends the current match file
+const MATCH_END_IDLE_MS = 60_000;
+
+type ActiveFile = {
+  filePath: string;
+  gzip: zlib.Gzip;
+  out: fs.WriteStream;
+  lastGameTime: number;
+  capped: boolean;
+};
+
+export function timestampForFile(d: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return (
+    `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-` +
+    `${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`
+  );
+}
+
+export function listRecordings(
+  dir: string,
+  extension = RECORDING_EXTENSION
+): Array<{ filePath: string; size: number; mtimeMs: number }> {
+  try {
+    return fs
+      .readdirSync(dir)
+      .filter((f) => f.endsWith(extension))
+      .map((f) => {
+        const filePath = path.join(dir, f);
+        const st = fs.statSync(filePath);
+        return { filePath, size: st.size, mtimeMs: st.mtimeMs };
+      })
+      .sort((a, b) => a.mtimeMs - b.mtimeMs);
+  } catch {
+    return [];
+  }
+}
+
+export class SessionRecorder {
+  private readonly dir: string;
+  private readonly maxFileBytes: number;
+  private readonly maxTotalBytes: number;
+  private readonly keep: number;
+  private readonly source?: string;
+  private active: ActiveFile | null = null;
+  private lastSuccessAtMs = 0;
+
+  constructor(options: SessionRecorderOptions) {
+    this.dir = options.dir;
+    this.maxFileBytes = options.maxFileBytes ?? 50 * 1024 * 1024;
+    this.maxTotalBytes = options.maxTotalBytes ?? 500 * 1024 * 1024;
+    this.keep = options.keep ?? 30;
+    this.source = options.source;
+  }
+
+  /**
+   * Record one poll: raw responses keyed by request path plus the polled game
+   * time, or null when the poll failed (no game running / connection lost).
+   */
+  recordFrame(
+    responses: Record<string, unknown> | null,
+    gameTime?: number,
+    gameMode?: string
+  ) {
+    const now = Date.now();
+    if (
+      !responses ||
+      typeof gameTime !== "number" ||
+      !Object.keys(responses).length
+    ) {
+      if (this.active && now - this.lastSuccessAtMs > MATCH_END_IDLE_MS) {
+        this.close();
+      }
+      return;
+    }
+    this.lastSuccessAtMs = now;
+    // Game clock went backwards → a new match started
+    if (this.active && gameTime + 5 < this.active.lastGameTime) this.close();
+    if (!this.active) this.open(gameMode);
+    const active = this.active;
+    if (!active || active.capped) return;
+
+    const frame: SessionFrame = {
+      type: "frame",
+      wallClock: now,
+      gameTime,
+      responses,
+    };
+    active.lastGameTime = gameTime;
+    active.gzip.write(JSON.stringify(frame) + "\n");
+    // Sync-flush so a crash still leaves a readable file
+    active.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+    if (active.out.bytesWritten >= this.maxFileBytes) {
+      console.warn(
+        `[SessionRecorder] ${active.filePath} reached the size cap; recording paused for this match`
+      );
+      active.capped = true;
+    }
+  }
+
+  close() {
+    const active = this.active;
+    this.active = null;
+    if (!active) return;
+    active.gzip.end();
+    active.out.once("close", () => this.prune());
+  }
+
+  private open(gameMode?: string) {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+    } catch {}
+    this.prune();
+    const name = `${timestampForFile(new Date())}${
+      gameMode ? `-${gameMode.replace(/[^A-Za-z0-9_]/g, "")}` : ""
+    }${RECORDING_EXTENSION}`;
+    const filePath = path.join(this.dir, name);
+    const out = fs.createWriteStream(filePath);
+    const gzip = zlib.createGzip();
+    gzip.pipe(out);
+    out.on("error", (err) => {
+      console.error("[SessionRecorder] Write failed:", err);
+      if (this.active?.out === out) this.active.capped = true;
+    });
+    const header: SessionHeader = {
+      type: "header",
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      source: this.source,
+      gameMode,
+    };
+    gzip.write(JSON.stringify(header) + "\n");
+    this.active = { filePath, gzip, out, lastGameTime: 0, capped: false };
+  }
+
+  private prune() {
+    pruneRecordings(this.dir, {
+      keep: this.keep,
+      maxTotalBytes: this.maxTotalBytes,
+      exclude: this.active?.filePath,
+    });
+  }
+}
+
+// Rotation: drop the oldest recordings beyond the count and total-size caps.
+// `keep` counts the file about to be opened, so at most keep-1 remain.
+export function pruneRecordings(
+  dir: string,
+  options: {
+    keep: number;
+    maxTotalBytes: number;
+    exclude?: string;
+    extension?: string;
+  }
+) {
+  const files = listRecordings(dir, options.extension).filter(
+    (f) => f.filePath !== options.exclude
+  );
+  let total = files.reduce((sum, f) => sum + f.size, 0);
+  let count = files.length;
+  for (const f of files) {
+    if (count < options.keep && total <= options.maxTotalBytes) break;
+    try {
+      fs.unlinkSync(f.filePath);
+    } catch {
+      continue;
+    }
+    count--;
+    total -= f.size;
+  }
+}
@@ -0,0 +1,63 @@
+// Skill-order history for the active player, built by watching ability
+// levels go up between polls (the API only reports current levels).
+
+export type AbilityKey = "q" | "w" | "e" | "r";
+
+export type SkillPoint = {
+  point: number; // 1-based; the champion level the point was earned at
+  ability: AbilityKey;
+  gameTime: number;
+};
+
+export type SkillOrder = {
+  // Levels already spent when tracking started (app opened mid-game)
+  baseline: Record<AbilityKey, number>;
+  history: SkillPoint[];
+};
+
+const KEYS: AbilityKey[] = ["q", "w", "e", "r"];
+
+type AbilityLevels = Partial<
+  Record<AbilityKey, { level?: number } | null | undefined>
+>;
+
+function levelsOf(abilities: AbilityLevels | undefined) {
+  const levels = { q: 0, w: 0, e: 0, r: 0 };
+  for (const k of KEYS) levels[k] = Number(abilities?.[k]?.level) || 0;
+  return levels;
+}
+
+export class SkillOrderTracker {
+  private order: SkillOrder | null = null;
+  private last: Record<AbilityKey, number> = { q: 0, w: 0, e: 0, r: 0 };
+  private lastGameTime = 0;
+
+  /** Feed the latest ability levels; returns the order so far. */
+  observe(
+    gameTimeSec: number,
+    abilities: AbilityLevels | undefined
+  ): SkillOrder {
+    // Game clock went backwards → new game
+    if (this.order && gameTimeSec + 5 < this.lastGameTime) this.order = null;
+    this.lastGameTime = gameTimeSec;
+    const levels = levelsOf(abilities);
+    if (!this.order) {
+      this.order = { baseline: { ...levels }, history: [] };
+      this.last = levels;
+      return this.order;
+    }
+    let spent = KEYS.reduce((sum, k) => sum + this.last[k], 0);
+    for (const k of KEYS) {
+      for (let l = this.last[k]; l < levels[k]; l++) {
+        spent++;
+        this.order.history.push({
+          point: spent,
+          ability: k,
+          gameTime: gameTimeSec,
+        });
+      }
+    }
+    this.last = levels;
+    return this.order;
+  }
+}
@@ -0,0 +1,141 @@
+// Summoner spell cooldowns for spells the player marks as used (hotkey or a
+// Scoreboard click). The Live Client API only reports spell names, so
+// cooldowns come from Data Dragon plus the haste sources it does expose.
+
+export type SpellSlot = "d" | "f";
+
+export type SpellCooldown = {
+  player: string; // riotIdGameName (or summonerName)
+  champion: string;
+  slot: SpellSlot;
+  spell: string; // display name, e.g. "Flash"
+  usedAt: number; // game time
+  readyAt: number; // game time
+  cooldownSec: number;
+};
+
+// Used until Data Dragon's summoner.json has loaded (or when it can't)
+const FALLBACK_COOLDOWNS: Record<string, number> = {
+  SummonerFlash: 300,
+  SummonerTeleport: 360,
+  SummonerDot: 180,
+  SummonerExhaust: 240,
+  SummonerHeal: 240,
+  SummonerBarrier: 180,
+  SummonerBoost: 240,
+  SummonerHaste: 240,
+  SummonerSmite: 90,
+  SummonerMana: 240,
+  SummonerSnowball: 80,
+};
+
+const NAME_TO_KEY: Record<string, string> = {
+  Flash: "SummonerFlash",
+  Ignite: "SummonerDot",
+  Ghost: "SummonerHaste",
+  Heal: "SummonerHeal",
+  Exhaust: "SummonerExhaust",
+  Teleport: "SummonerTeleport",
+  Barrier: "SummonerBarrier",
+  Cleanse: "SummonerBoost",
+  Smite: "SummonerSmite",
+  Clarity: "SummonerMana",
+  Mark: "SummonerSnowball",
+};
+
+// Summoner spell haste visible on any player: Ionian Boots of Lucidity.
+// Rune sources (Cosmic Insight) are not exposed for other players.
+const SUMMONER_HASTE_ITEMS: Record<number, number> = {
+  3158: 10,
+};
+
+/** Data Dragon key of a PlayerSummonerSpells entry ("SummonerFlash"). */
+export function summonerSpellKey(spell: any): string | null {
+  const raw = /SummonerSpell_(Summoner\w+?)_DisplayName/.exec(
+    String(spell?.rawDisplayName || "")
+  );
+  if (raw) return raw[1];
+  const name = String(spell?.displayName || "");
+  if (NAME_TO_KEY[name]) return NAME_TO_KEY[name];
+  const n = name.toLowerCase();
+  if (n.includes("teleport")) return "SummonerTeleport";
+  if (n.includes("smite")) return "SummonerSmite";
+  return null;
+}
+
+export function playerKey(p: any): string {
+  return String(p?.riotIdGameName || p?.summonerName || "");
+}
+
+function summonerHaste(p: any): number {
+  let haste = 0;
+  for (const item of p?.items || []) {
+    haste += SUMMONER_HASTE_ITEMS[Number(item?.itemID)] || 0;
+  }
+  return haste;
+}
+
+export class SpellTracker {
+  private baseCooldowns = new Map<string, number>();
+  private used = new Map<string, SpellCooldown>();
+  private lastGameTime = 0;
+
+  /** Replace the fallback table with Data Dragon cooldowns. */
+  setBaseCooldowns(cooldowns: Map<string, number>) {
+    this.baseCooldowns = cooldowns;
+  }
+
+  /** Forget marks when a new game starts (game clock went backwards). */
+  sync(gameTimeSec: number) {
+    if (gameTimeSec + 5 < this.lastGameTime) this.used.clear();
+    this.lastGameTime = gameTimeSec;
+  }
+
+  /**
+   * Mark a player's spell as used at `gameTimeSec`; marking a spell that is
+   * still on cooldown clears the mark instead (undo a misclick).
+   */
+  toggle(
+    player: any,
+    slot: SpellSlot,
+    gameTimeSec: number
+  ): SpellCooldown | null {
+    const name = playerKey(player);
+    const key = `${name}:${slot}`;
+    const existing = this.used.get(key);
+    if (existing && existing.readyAt > gameTimeSec) {
+      this.used.delete(key);
+      return null;
+    }
+    const spell =
+      slot === "d"
+        ? player?.summonerSpells?.summonerSpellOne
+        : player?.summonerSpells?.summonerSpellTwo;
+    const spellKey = summonerSpellKey(spell);
+    const base =
+      (spellKey &&
+        (this.baseCooldowns.get(spellKey) ?? FALLBACK_COOLDOWNS[spellKey])) ||
+      0;
+    if (!base) return null;
+    const haste = summonerHaste(player);
+    const cooldownSec = Math.round((base * 100) / (100 + haste));
+    const entry: SpellCooldown = {
+      player: name,
+      champion: String(player?.championName || ""),
+      slot,
+      spell: String(spell?.displayName || spellKey),
+      usedAt: gameTimeSec,
+      readyAt: gameTimeSec + cooldownSec,
+      cooldownSec,
+    };
+    this.used.set(key, entry);
+    return entry;
+  }
+
+  /** Spells still on cooldown at `gameTimeSec`, soonest ready first. */
+  active(gameTimeSec: number): SpellCooldown[] {
+    return Array.from(this.used.values())
+      .filter((c) => c.readyAt > gameTimeSec)
+      .sort((a, b) => a.readyAt - b.readyAt);
+  }
+}
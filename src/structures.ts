@@ -0,0 +1,156 @@
+import type { TeamSide } from "./objectiveLedger";
+
+// Turret and inhibitor state from TurretKilled / InhibKilled structure IDs.
+// IDs name the structure's owner, so kills by minions are attributed too:
+//   Turret_T2_C_05_A  → CHAOS mid outer turret
+//   Barracks_T1_R1    → ORDER bot inhibitor
+// T1 is ORDER (blue, bottom-left), T2 is CHAOS (red, top-right). Lanes are
+// L (top), C (mid, also the inhib/nexus turrets) and R (bot).
+
+export type StructureKind = "turret" | "inhibitor";
+export type Lane = "top" | "mid" | "bot" | "base";
+export type StructureTier = "outer" | "inner" | "inhib" | "nexus";
+
+export type StructureInfo = {
+  id: string; // e.g. Turret_T1_L_03_A, Barracks_T1_L1
+  kind: StructureKind;
+  team: "ORDER" | "CHAOS";
+  lane: Lane;
+  tier: StructureTier | null; // null for inhibitors
+};
+
+export type StructureStatus = StructureInfo & {
+  side: TeamSide | null;
+  alive: boolean;
+  destroyedAt: number | null;
+  respawnsAt: number | null; // inhibitors only
+};
+
+export type StructureState = {
+  turrets: StructureStatus[];
+  inhibitors: StructureStatus[];
+};
+
+const INHIB_RESPAWN_SEC = 300; // 5:00
+
+// Turret position code (lane letter + number) → lane and tier
+const TURRET_CODES: Record<string, { lane: Lane; tier: StructureTier }> = {
+  L_03: { lane: "top", tier: "outer" },
+  L_02: { lane: "top", tier: "inner" },
+  C_06: { lane: "top", tier: "inhib" },
+  C_05: { lane: "mid", tier: "outer" },
+  C_04: { lane: "mid", tier: "inner" },
+  C_03: { lane: "mid", tier: "inhib" },
+  R_03: { lane: "bot", tier: "outer" },
+  R_02: { lane: "bot", tier: "inner" },
+  C_07: { lane: "bot", tier: "inhib" },
+  C_02: { lane: "base", tier: "nexus" },
+  C_01: { lane: "base", tier: "nexus" },
+};
+
+const INHIB_LANES: Record<string, Lane> = { L: "top", C: "mid", R: "bot" };
+
+/**
+ * Owning team of any structure ID, including other maps' formats such as
+ * Turret_TOrder_L1_P3_2250400266 that parseStructureId does not model.
+ */
+export function structureOwner(
+  raw: string | undefined
+): "ORDER" | "CHAOS" | null {
+  const m = /^(?:Turret|Barracks)_T(1|2|Order|Chaos)_/.exec(raw || "");
+  if (!m) return null;
+  return m[1] === "1" || m[1] === "Order" ? "ORDER" : "CHAOS";
+}
+
+export function parseStructureId(
+  raw: string | undefined
+): StructureInfo | null {
+  if (!raw) return null;
+  const turret = /^Turret_T([12])_([LCR])_(\d{2})_A$/.exec(raw);
+  if (turret) {
+    const code = TURRET_CODES[`${turret[2]}_${turret[3]}`];
+    if (!code) return null;
+    return {
+      id: raw,
+      kind: "turret",
+      team: turret[1] === "1" ? "ORDER" : "CHAOS",
+      lane: code.lane,
+      tier: code.tier,
+    };
+  }
+  const inhib = /^Barracks_T([12])_([LCR])1$/.exec(raw);
+  if (inhib) {
+    return {
+      id: raw,
+      kind: "inhibitor",
+      team: inhib[1] === "1" ? "ORDER" : "CHAOS",
+      lane: INHIB_LANES[inhib[2]],
+      tier: null,
+    };
+  }
+  return null;
+}
+
+function allStructures(): StructureInfo[] {
+  const ids: string[] = [];
+  for (const t of ["1", "2"]) {
+    for (const code of Object.keys(TURRET_CODES))
+      ids.push(`Turret_T${t}_${code}_A`);
+    for (const lane of Object.keys(INHIB_LANES))
+      ids.push(`Barracks_T${t}_${lane}1`);
+  }
+  return ids.map((id) => parseStructureId(id)!);
+}
+
+export function computeStructureState(
+  gameTimeSec: number,
+  events: Array<any>,
+  myTeam: string
+): StructureState {
+  const sideOf = (team: string): TeamSide | null =>
+    !myTeam ? null : team === myTeam ? "myTeam" : "enemyTeam";
+  const destroyed = new Map<string, number>();
+  const respawned = new Map<string, number>();
+  for (const ev of events || []) {
+    const t = Number(ev?.EventTime) || 0;
+    if (t > gameTimeSec) continue;
+    if (ev?.EventName === "TurretKilled" || ev?.EventName === "InhibKilled") {
+      const info = parseStructureId(ev.TurretKilled || ev.InhibKilled);
+      if (info) destroyed.set(info.id, t);
+    } else if (ev?.EventName === "InhibRespawned") {
+      const info = parseStructureId(ev.InhibRespawned);
+      if (info) respawned.set(info.id, t);
+    }
+  }
+
+  const turrets: StructureStatus[] = [];
+  const inhibitors: StructureStatus[] = [];
+  for (const info of allStructures()) {
+    const side = sideOf(info.team);
+    const destroyedAt = destroyed.get(info.id) ?? null;
+    if (info.kind === "turret") {
+      turrets.push({
+        ...info,
+        side,
+        alive: destroyedAt === null,
+        destroyedAt,
+        respawnsAt: null,
+      });
+      continue;
+    }
+    const respawnsAt =
+      destroyedAt !== null ? destroyedAt + INHIB_RESPAWN_SEC : null;
+    const back =
+      respawnsAt !== null &&
+      (gameTimeSec >= respawnsAt ||
+        (respawned.get(info.id) ?? -1) >= (destroyedAt as number));
+    inhibitors.push({
+      ...info,
+      side,
+      alive: destroyedAt === null || back,
+      destroyedAt: back ? null : destroyedAt,
+      respawnsAt: back ? null : respawnsAt,
+    });
+  }
+  return { turrets, inhibitors };
+}
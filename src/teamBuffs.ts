@@ -0,0 +1,73 @@
+import { LedgerEntry, TeamSide } from "./objectiveLedger";
+
+// Hand of Baron / Aspect of the Dragon: the killing team's living members get
+// the buff, and each loses it on death. A team buff is active while it has
+// not expired and at least one holder has not died since the kill.
+
+export type TeamBuffKind = "baron" | "elder";
+
+export type TeamBuff = {
+  kind: TeamBuffKind;
+  team: TeamSide | null;
+  killerTeam: string;
+  acquiredAt: number;
+  expiresAt: number;
+  holders: string[]; // players on the team still carrying the buff
+};
+
+const BUFF_DURATION_SEC: Record<TeamBuffKind, number> = {
+  baron: 180, // 3:00
+  elder: 150, // 2:30
+};
+
+function playerName(p: any): string {
+  return String(p?.riotIdGameName || p?.summonerName || "");
+}
+
+export function computeTeamBuffs(
+  gameTimeSec: number,
+  ledger: LedgerEntry[],
+  events: Array<any>,
+  players: Array<any>
+): TeamBuff[] {
+  const buffs: TeamBuff[] = [];
+  for (const e of ledger) {
+    const kind: TeamBuffKind | null =
+      e.objective === "baron"
+        ? "baron"
+        : e.objective === "dragon" && e.dragonType === "Elder"
+        ? "elder"
+        : null;
+    if (!kind || !e.killerTeam) continue;
+    const expiresAt = e.time + BUFF_DURATION_SEC[kind];
+    if (gameTimeSec >= expiresAt || gameTimeSec < e.time) continue;
+
+    // Anyone killed after the objective lost the buff, as has anyone dead now
+    const diedSince = new Set<string>();
+    for (const ev of events || []) {
+      if (ev?.EventName !== "ChampionKill") continue;
+      const t = Number(ev.EventTime) || 0;
+      if (t >= e.time && t <= gameTimeSec && ev.VictimName)
+        diedSince.add(String(ev.VictimName));
+    }
+    const holders = (players || [])
+      .filter((p) => p?.team === e.killerTeam && !p.isDead)
+      .filter(
+        (p) =>
+          !diedSince.has(String(p.riotIdGameName || "")) &&
+          !diedSince.has(String(p.summonerName || ""))
+      )
+      .map(playerName);
+    if (!holders.length) continue;
+
+    buffs.push({
+      kind,
+      team: e.team,
+      killerTeam: e.killerTeam,
+      acquiredAt: e.time,
+      expiresAt,
+      holders,
+    });
+  }
+  return buffs;
+}
@@ -0,0 +1,38 @@
+// Per-poll samples for the dashboard graphs. Samples are thinned as they
+// arrive, and what goes out with each snapshot is downsampled to a fixed
+// number of points so a long match doesn't grow every payload.
+
+// Keep at most one sample per this many game seconds
+const SAMPLE_SPACING_SEC = 5;
+// Points handed out per call; enough for the small graphs
+const MAX_POINTS = 120;
+
+export class TimeSeries<T extends { gameTime: number }> {
+  private samples: T[] = [];
+
+  /** Add the latest sample; returns the series so far, downsampled. */
+  add(point: T): T[] {
+    const n = this.samples.length;
+    // Game clock went backwards → new game
+    if (n && point.gameTime + 5 < this.samples[n - 1].gameTime)
+      this.samples = [];
+    const [prev, last] = this.samples.slice(-2);
+    // The newest point slides until it is far enough from the one before it
+    if (last && last.gameTime - prev.gameTime < SAMPLE_SPACING_SEC)
+      this.samples[this.samples.length - 1] = point;
+    else this.samples.push(point);
+    return this.points();
+  }
+
+  // Every stride-th sample plus the newest. The stride doubles as the match
+  // goes on, so the kept points stay put between calls instead of shifting.
+  private points(): T[] {
+    const n = this.samples.length;
+    let stride = 1;
+    while (Math.ceil(n / stride) > MAX_POINTS) stride *= 2;
+    if (stride === 1) return this.samples.slice();
+    const out = this.samples.filter((_, i) => i % stride === 0);
+    if ((n - 1) % stride) out.push(this.samples[n - 1]);
+    return out;
+  }
+}
@@ -0,0 +1,105 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import type { TipDelivery, TipPayload } from "./tipsEngine";
+
+// Tips channels that leave the app: the log file and the webhook. The windows,
+// OS notifications and sounds are handled by the Electron main process.
+
+const WEBHOOK_TIMEOUT_MS = 3000;
+
+function clock(seconds: number | undefined): string {
+  const s = Math.max(0, Math.floor(seconds ?? 0));
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, "0")}`;
+}
+
+/** JSON body shared by the log (json format) and the webhook. */
+export function tipRecord(
+  tip: TipPayload,
+  delivery: TipDelivery,
+  gameTime: number | undefined
+) {
+  return {
+    id: tip.id,
+    gameTime: gameTime ?? null,
+    wallClock: new Date().toISOString(),
+    severity: delivery.severity,
+    icon: delivery.icon,
+    title: delivery.title,
+    body: delivery.body,
+    metadata: tip.metadata ?? {},
+  };
+}
+
+/** One line per tip: wall clock, game clock, severity, rule id and text. */
+export function tipLogLine(
+  tip: TipPayload,
+  delivery: TipDelivery,
+  gameTime: number | undefined
+): string {
+  if (delivery.format === "json")
+    return JSON.stringify(tipRecord(tip, delivery, gameTime));
+  const text = delivery.body
+    ? `${delivery.title} — ${delivery.body}`
+    : delivery.title;
+  return [
+    new Date().toISOString(),
+    clock(gameTime),
+    delivery.severity.toUpperCase().padEnd(8),
+    tip.id,
+    text.replace(/\s*\n\s*/g, " "),
+  ].join("  ");
+}
+
+export async function appendTipLog(
+  file: string,
+  tip: TipPayload,
+  delivery: TipDelivery,
+  gameTime: number | undefined
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.appendFile(
+    file,
+    tipLogLine(tip, delivery, gameTime) + "\n",
+    "utf-8"
+  );
+}
+
+/** POST the tip as JSON; resolves with the HTTP status, rejects on errors. */
+export async function postTipWebhook(
+  url: string,
+  tip: TipPayload,
+  delivery: TipDelivery,
+  gameTime: number | undefined
+): Promise<number> {
+  const target = new URL(url);
+  if (target.protocol !== "http:" && target.protocol !== "https:")
+    throw new Error(`Unsupported webhook URL ${url}`);
+  const body = JSON.stringify(tipRecord(tip, delivery, gameTime));
+  const request = target.protocol === "https:" ? https.request : http.request;
+  return await new Promise<number>((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body),
+        },
+        timeout: WEBHOOK_TIMEOUT_MS,
+      },
+      (res) => {
+        res.resume();
+        const status = res.statusCode || 0;
+        if (status >= 200 && status < 300) resolve(status);
+        else reject(new Error(`Webhook ${url} answered ${status}`));
+      }
+    );
+    req.on("timeout", () =>
+      req.destroy(new Error(`Webhook ${url} timed out`))
+    );
+    req.on("error", (err) => reject(err));
+    req.end(body);
+  });
+}
@@ -2,19 +2,87 @@ import * as fs from "fs";
 import * as path from "path";
 import { EventEmitter } from "events";
 import { parse } from "yaml";
+import { advantageWindowSec } from "./deathTracker";
+import { renderTemplate } from "./tipsTemplate";
+import { getNextCannonWavesBefore20 } from "./minionWaves";
+import { buildNameToTeam } from "./riotClient";
+import {
+  EventFilterValue,
+  EventMatchContext,
+  eventMatches,
+} from "./eventMatch";
+import {
+  evaluateExpression,
+  Expr,
+  FieldSchema,
+  parseExpression,
+  validateExpression,
+} from "./tipsExpr";
 
-type TipChannelOverlay = {
-  type: "overlay";
-  severity?: "info" | "warning" | "critical";
+type Severity = "info" | "warning" | "critical";
+
+// Every channel has its own text and throttle; missing text falls back to the
+// overlay channel's, then the trigger's default
+type TipChannelBase = {
+  severity?: Severity;
   icon?: string;
-  title: string;
+  title?: string;
   body?: string;
+  throttleSec?: number; // min seconds between deliveries on this channel
+};
+
+type TipChannelOverlay = TipChannelBase & {
+  type: "overlay";
   stickyMs?: number;
+  // Cue played with the toast: info/warning/critical or a file in data/sounds
   sound?: string;
 };
 
+// Toast in the dashboard window only
+type TipChannelDashboard = TipChannelBase & {
+  type: "dashboard";
+  stickyMs?: number;
+};
+
+// Native OS notification
+type TipChannelNotification = TipChannelBase & { type: "notification" };
+
+// One line per tip appended to a file (default userData/logs/tips.log)
+type TipChannelLog = TipChannelBase & {
+  type: "log";
+  file?: string;
+  format?: "text" | "json";
+};
+
+// JSON POST to a local endpoint
+type TipChannelWebhook = TipChannelBase & { type: "webhook"; url: string };
+
+type TipChannelSound = TipChannelBase & {
+  type: "sound";
+  // Bundled cue name or a sound file; defaults to the tip's severity cue
+  sound?: string;
+  volume?: number; // 0..1, scaled by the master volume
+};
+
+export type TipChannel =
+  | TipChannelOverlay
+  | TipChannelDashboard
+  | TipChannelNotification
+  | TipChannelLog
+  | TipChannelWebhook
+  | TipChannelSound;
+
+const CHANNEL_TYPES: Array<TipChannel["type"]> = [
+  "overlay",
+  "dashboard",
+  "notification",
+  "log",
+  "webhook",
+  "sound",
+];
+
 type TipNotify = {
-  channels: Array<TipChannelOverlay>;
+  channels: TipChannel[];
   throttleSec?: number;
 };
 
@@ -26,6 +94,7 @@ type PhaseCondition = {
 type RuleWhen = {
   phase?: PhaseCondition;
   modes?: string[];
+  condition?: string; // expression, see tipsExpr.ts and CONDITION_FIELDS
 };
 
 type TriggerCannonWave = {
@@ -35,16 +104,75 @@ type TriggerCannonWave = {
 
 type TriggerObjectiveSpawn = {
   type: "objective_spawn";
-  objective: "dragon" | "herald" | "baron";
+  objective: "dragon" | "herald" | "grubs" | "atakhan" | "baron";
   leadSeconds: number | number[];
 };
 
+type TriggerBuffExpiry = {
+  type: "buff_expiry";
+  buff: "baron" | "elder";
+  team?: "ally" | "enemy" | "any"; // default any
+  leadSeconds: number | number[];
+};
+
+type TriggerTeamAdvantageWindow = {
+  type: "team_advantage_window";
+  minEnemiesDead?: number; // default 2
+  minWindowSec: number; // enemies must stay dead at least this long
+};
+
+type TriggerSkillPointUnspent = {
+  type: "skill_point_unspent";
+  ability?: "any" | "r"; // "r": only when R can be ranked up (6/11/16)
+  graceSec?: number; // how long points may sit unspent first (default 5)
+};
+
+type TriggerCsBenchmark = {
+  type: "cs_benchmark";
+  checkpoints?: number[]; // game minutes; default: the role's target minutes
+  report?: "behind" | "ahead" | "always"; // default behind
+  minDiff?: number; // ignore smaller differences (default 1)
+};
+
+type TriggerEvent = {
+  type: "event";
+  event: string | string[]; // EventName(s), e.g. ChampionKill
+  match?: Record<string, EventFilterValue>; // field filters, see eventMatch.ts
+};
+
+const VITAL_STATS = [
+  "gold",
+  "health",
+  "healthPct",
+  "resource",
+  "resourcePct",
+  "level",
+] as const;
+type VitalStat = (typeof VITAL_STATS)[number];
+
+type TriggerStatThreshold = {
+  type: "stat_threshold";
+  stat: VitalStat;
+  above?: number; // fires when the stat rises above this…
+  below?: number; // …or falls below this (set one of the two)
+  hysteresis?: number; // how far back it must go before firing again (default 0)
+  cooldownSec?: number; // game seconds between tips (default 0)
+};
+
 type Rule = {
   id: string;
   name: string;
   description?: string;
   when?: RuleWhen;
-  trigger: TriggerCannonWave | TriggerObjectiveSpawn; // union for future triggers
+  trigger:
+    | TriggerCannonWave
+    | TriggerObjectiveSpawn
+    | TriggerBuffExpiry
+    | TriggerTeamAdvantageWindow
+    | TriggerSkillPointUnspent
+    | TriggerCsBenchmark
+    | TriggerEvent
+    | TriggerStatThreshold;
   notify: TipNotify;
   enabled?: boolean;
 };
@@ -60,26 +188,97 @@ type TipsConfigV1 = {
   modules: Module[];
 };
 
+/** One channel's copy of a tip, with that channel's text filled in. */
+export type TipDelivery = {
+  type: TipChannel["type"];
+  title: string;
+  body?: string;
+  icon?: string;
+  severity: Severity;
+  stickyMs?: number;
+  sound?: { name: string; volume: number };
+  file?: string; // log
+  format?: "text" | "json"; // log
+  url?: string; // webhook
+};
+
 export type TipPayload = {
   id: string;
   title: string;
   body?: string;
   icon?: string;
-  severity?: "info" | "warning" | "critical";
+  severity?: Severity;
   stickyMs?: number;
   metadata?: Record<string, unknown>;
+  // Where this tip goes; channels still throttled are left out
+  channels: TipDelivery[];
 };
 
+// A tip as a trigger builds it, before the rule's channels are applied
+type TipContent = Omit<TipPayload, "channels">;
+
 type SnapshotLike = {
   game?: { time?: number; mode?: string };
   objectives?: {
     dragon?: { nextSpawnTime?: number };
     herald?: { nextSpawnTime?: number };
+    grubs?: { nextSpawnTime?: number } | null;
+    atakhan?: { nextSpawnTime?: number } | null;
     baron?: { nextSpawnTime?: number };
   };
+  buffs?: Array<{
+    kind?: string;
+    team?: "myTeam" | "enemyTeam" | null;
+    expiresAt?: number;
+  }>;
+  deaths?: { enemies?: Array<{ respawnAt: number }> };
+  player?: {
+    name?: string;
+    champion?: string;
+    team?: string;
+    level?: number;
+    position?: string;
+  };
+  stats?: Record<string, number>;
+  team?: { kills?: number; enemyKills?: number } & Record<string, unknown>;
+  items?: Array<string | null>;
+  gold?: { myTeam: number; enemyTeam: number; diff: number };
+  vitals?: Partial<Record<Exclude<VitalStat, "level">, number>> & {
+    dead?: boolean;
+  };
+  csBenchmark?: {
+    role?: string;
+    targets?: Array<{ minute: number; cs: number }>;
+    cs?: number;
+    target?: number;
+    max?: number | null;
+  };
+  raw?: { events?: Array<any>; players?: Array<any> };
+  abilities?: Partial<
+    Record<"q" | "w" | "e" | "r", { level?: number } | null>
+  >;
 };
 type GetSnapshotFn = () => Promise<SnapshotLike>;
 
+// Time source and scheduler; swap in a virtual clock for tests and simulations
+export interface TipsClock {
+  now(): number; // milliseconds
+  setInterval(fn: () => void, ms: number): unknown;
+  clearInterval(handle: unknown): void;
+}
+
+export const systemClock: TipsClock = {
+  now: () => Date.now(),
+  setInterval: (fn, ms) => setInterval(fn, ms),
+  clearInterval: (handle) => clearInterval(handle as NodeJS.Timeout),
+};
+
+// Lead windows must span at least one evaluation gap so slow polls don't skip tips
+const MIN_LEAD_WINDOW_SEC = 2.1;
+const MAX_LEAD_WINDOW_SEC = 15;
+// Event triggers ignore events older than this (e.g. when the app opens mid-game)
+const EVENT_MAX_AGE_SEC = 10;
+
 function loadYamlFiles(dir: string): TipsConfigV1 {
   let modules: Module[] = [];
   try {
@@ -117,69 +316,273 @@ function modeAllowed(
   return when.modes.includes(mode);
 }
 
-function getLeadList(lead: number | number[]): number[] {
-  return Array.isArray(lead) ? lead.slice().sort((a, b) => a - b) : [lead];
+// Fields a `when.condition` expression can read (see conditionScope)
+const ability: FieldSchema = { name: null, level: null, cooldownSec: null };
+const bySide: FieldSchema = { myTeam: null, enemyTeam: null };
+const CONDITION_FIELDS: FieldSchema = {
+  game: { mode: null, modeName: null, time: null },
+  player: {
+    name: null,
+    riotId: null,
+    champion: null,
+    team: null,
+    level: null,
+    position: null,
+  },
+  stats: { kills: null, deaths: null, assists: null, cs: null, vision: null },
+  team: {
+    myTeam: null,
+    enemyTeam: null,
+    kills: null,
+    enemyKills: null,
+    killDiff: null,
+    turrets: bySide,
+    inhibs: bySide,
+  },
+  items: null,
+  position: null,
+  role: null,
+  gold: { myTeam: null, enemyTeam: null, diff: null },
+  cs: {
+    role: null,
+    targets: null,
+    cs: null,
+    target: null,
+    max: null,
+    diff: null,
+  },
+  abilities: { q: ability, w: ability, e: ability, r: ability },
+  vitals: {
+    gold: null,
+    health: null,
+    maxHealth: null,
+    healthPct: null,
+    resource: null,
+    resourceMax: null,
+    resourcePct: null,
+    resourceType: null,
+    dead: null,
+  },
+};
+
+// What conditions see: the snapshot plus a few derived values
+function conditionScope(snap: SnapshotLike): Record<string, unknown> {
+  const team = snap.team || {};
+  return {
+    game: snap.game || {},
+    player: snap.player || {},
+    stats: snap.stats || {},
+    team: {
+      ...team,
+      killDiff: (Number(team.kills) || 0) - (Number(team.enemyKills) || 0),
+    },
+    items: (snap.items || []).filter((i): i is string => !!i),
+    position: snap.player?.position || "",
+    role: snap.csBenchmark?.role || "",
+    gold: snap.gold || {},
+    cs: snap.csBenchmark || {},
+    abilities: snap.abilities || {},
+    vitals: snap.vitals || {},
+  };
 }
 
-// Summoner's Rift wave timing (simplified): first wave at 90s, then every 30s
-// Cannon waves every 3rd wave until 20:00. We only handle laning phase (<20:00) for now.
-function getNextCannonWavesBefore20(
+// Live Client positions → template roster keys (enemy.jungler.champion)
+const ROSTER_KEYS: Record<string, string[]> = {
+  TOP: ["top"],
+  JUNGLE: ["jungle", "jungler"],
+  MIDDLE: ["mid"],
+  BOTTOM: ["bot", "adc"],
+  UTILITY: ["support"],
+};
+
+// What tip templates can read besides the trigger's own values
+function templateContext(
+  snap: SnapshotLike,
   nowSec: number
-): { waveIndex: number; spawnTime: number }[] {
-  const waves: { waveIndex: number; spawnTime: number }[] = [];
-  const FIRST_WAVE = 90;
-  const CADENCE = 30;
-  const END = 1200; // 20 min
-  // compute current wave index (1-based) floor
-  const currentWaveIndex =
-    nowSec < FIRST_WAVE ? 0 : Math.floor((nowSec - FIRST_WAVE) / CADENCE) + 1;
-  // next few cannon waves
-  for (let i = currentWaveIndex + 1; ; i++) {
-    const t = FIRST_WAVE + (i - 1) * CADENCE;
-    if (t > END) break;
-    if (i % 3 === 0) {
-      waves.push({ waveIndex: i, spawnTime: t });
-      // limit number returned
-      if (waves.length >= 5) break;
+): Record<string, unknown> {
+  const myTeam = String(snap.team?.myTeam || snap.player?.team || "");
+  const ally: Record<string, unknown> = {};
+  const enemy: Record<string, unknown> = {};
+  for (const p of snap.raw?.players || []) {
+    const roster = p?.team === myTeam ? ally : enemy;
+    const entry = {
+      name: p.riotIdGameName || p.summonerName || "",
+      champion: p.championName || "",
+      level: p.level,
+    };
+    for (const key of ROSTER_KEYS[String(p?.position || "")] || [])
+      roster[key] = entry;
+  }
+  const objectives: Record<string, unknown> = snap.objectives || {};
+  return {
+    ...conditionScope(snap),
+    clock: renderTemplate("{t|clock}", { t: nowSec }),
+    objectives,
+    dragon: objectives.dragon,
+    herald: objectives.herald,
+    grubs: objectives.grubs,
+    atakhan: objectives.atakhan,
+    baron: objectives.baron,
+    ally,
+    enemy,
+  };
+}
+
+// Trigger settings the engine can't act on, or null when the trigger is fine
+function triggerError(trigger: Rule["trigger"] | undefined): string | null {
+  if (trigger?.type === "stat_threshold") {
+    if (!VITAL_STATS.includes(trigger.stat))
+      return `stat must be one of ${VITAL_STATS.join(", ")}`;
+    const above = typeof trigger.above === "number";
+    const below = typeof trigger.below === "number";
+    if (above === below) return "set exactly one of above or below";
+  }
+  return null;
+}
+
+// Why a channel can't deliver, or null when it can
+function channelError(chan: TipChannel): string | null {
+  if (!CHANNEL_TYPES.includes(chan?.type))
+    return `unknown channel type "${chan?.type}"`;
+  if (chan?.type === "webhook") {
+    let protocol = "";
+    try {
+      protocol = new URL(String(chan.url || "")).protocol;
+    } catch {}
+    if (protocol !== "http:" && protocol !== "https:")
+      return `webhook url must be an http or https URL (got "${
+        chan.url ?? ""
+      }")`;
+  }
+  return null;
+}
+
+// Parse conditions and check triggers and channels. A rule mapped to null is
+// disabled (errors); invalid channels are dropped from the rule (warnings).
+function compileRules(config: TipsConfigV1): {
+  conditions: Map<Rule, Expr | null>;
+  errors: string[];
+  warnings: string[];
+} {
+  const conditions = new Map<Rule, Expr | null>();
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  for (const mod of config.modules || []) {
+    for (const rule of mod?.rules || []) {
+      const notify = rule?.notify;
+      if (notify?.channels?.length) {
+        const valid = notify.channels.filter((chan, index) => {
+          const err = channelError(chan);
+          if (err)
+            warnings.push(
+              `Dropped channel ${index + 1} of rule "${rule.id}" ` +
+                `(module ${mod.id}): ${err}`
+            );
+          return !err;
+        });
+        // No fallback to the default overlay for a rule aimed elsewhere
+        if (!valid.length) {
+          conditions.set(rule, null);
+          errors.push(
+            `rule "${rule.id}" (module ${mod.id}): no valid channels`
+          );
+          continue;
+        }
+        notify.channels = valid;
+      }
+      const invalid = triggerError(rule?.trigger);
+      if (invalid) {
+        conditions.set(rule, null);
+        errors.push(
+          `rule "${rule.id}" (module ${mod.id}): ` +
+            `${rule.trigger.type} trigger: ${invalid}`
+        );
+        continue;
+      }
+      // A condition that doesn't parse or reads unknown fields disables the
+      // rule as well
+      const source = rule?.when?.condition;
+      if (source === undefined) continue;
+      try {
+        const expr = parseExpression(source);
+        const err = validateExpression(expr, CONDITION_FIELDS);
+        if (err) throw err;
+        conditions.set(rule, expr);
+      } catch (e) {
+        conditions.set(rule, null);
+        const message = (e as Error).message;
+        errors.push(
+          `rule "${rule.id}" (module ${mod.id}): when.condition ` +
+            `"${source}": ${message}`
+        );
+      }
     }
   }
-  return waves;
+  return { conditions, errors, warnings };
+}
+
+function getLeadList(lead: number | number[]): number[] {
+  return Array.isArray(lead) ? lead.slice().sort((a, b) => a - b) : [lead];
 }
 
 type FiredKey = string; // `${ruleId}:${lead}:${waveIndex}`
 
 export class TipsEngine extends EventEmitter {
-  private readonly getSnapshot: GetSnapshotFn;
+  private readonly getSnapshot: GetSnapshotFn | null;
   private readonly configDir: string;
-  private timer: NodeJS.Timeout | null = null;
+  private readonly clock: TipsClock;
+  private timer: unknown = null;
   private lastNow = 0;
   private fired = new Set<FiredKey>();
   private lastFiredAtMs = new Map<FiredKey, number>();
+  // Last delivery per `${ruleId}#${channelIndex}`, for per-channel throttles
+  private channelSentAtMs = new Map<string, number>();
+  // Enemy count last announced per advantage rule; cleared when the window ends
+  private advantageCounts = new Map<string, number>();
+  // When the current champion level's points were first seen unspent, per rule
+  private unspentSince = new Map<string, { level: number; since: number }>();
+  // Per stat_threshold rule: whether the next crossing fires, and when it last did
+  private thresholds = new Map<string, { armed: boolean; firedAt: number }>();
   private config: TipsConfigV1 = { version: 1, modules: [] };
+  private conditions = new Map<Rule, Expr | null>();
 
-  constructor(options: { getSnapshot: GetSnapshotFn; configDir?: string }) {
+  constructor(options: {
+    // Pull-style source polled by start(); omit when snapshots are pushed via ingest()
+    getSnapshot?: GetSnapshotFn;
+    configDir?: string;
+    clock?: TipsClock;
+    // Reload rules when YAML files change (disable for one-shot tools)
+    watch?: boolean;
+  }) {
     super();
-    this.getSnapshot = options.getSnapshot;
+    this.getSnapshot = options.getSnapshot || null;
+    this.clock = options.clock || systemClock;
     this.configDir =
       options.configDir || path.resolve(process.cwd(), "data", "tips");
     this.reload();
-    this.setupWatch();
+    if (options.watch !== false) this.setupWatch();
   }
 
+  /** Poll getSnapshot every second (pull mode). */
   start() {
     this.stop();
-    this.timer = setInterval(() => void this.tick(), 1000);
+    if (!this.getSnapshot) return;
+    this.timer = this.clock.setInterval(() => void this.tick(), 1000);
   }
 
   stop() {
     if (this.timer) {
-      clearInterval(this.timer);
+      this.clock.clearInterval(this.timer);
       this.timer = null;
     }
   }
 
   private reload() {
     this.config = loadYamlFiles(this.configDir);
+    const { conditions, errors, warnings } = compileRules(this.config);
+    this.conditions = conditions;
+    for (const warning of warnings) console.warn(`[tips] ${warning}`);
+    for (const err of errors) console.warn(`[tips] Disabled ${err}`);
   }
 
   private setupWatch() {
@@ -198,16 +601,43 @@ export class TipsEngine extends EventEmitter {
     }
   }
 
-  private async tick() {
+  /** Fetch a snapshot from getSnapshot and evaluate it (pull mode). */
+  async tick() {
+    if (!this.getSnapshot) return;
+    try {
+      this.ingest(await this.getSnapshot());
+    } catch {
+      // ignore tick errors
+    }
+  }
+
+  /** Evaluate every rule once against a snapshot fetched elsewhere (push mode). */
+  ingest(snap: SnapshotLike) {
     try {
-      const snap = await this.getSnapshot();
       const nowSec = snap.game?.time ?? 0;
       const mode = snap.game?.mode ?? "";
 
       if (nowSec < this.lastNow) {
         this.fired.clear();
+        this.advantageCounts.clear();
+        this.unspentSince.clear();
+        this.thresholds.clear();
       }
+      const gapSec = this.lastNow > 0 ? nowSec - this.lastNow : 0;
+      const windowSec = Math.min(
+        MAX_LEAD_WINDOW_SEC,
+        Math.max(MIN_LEAD_WINDOW_SEC, gapSec + 0.1)
+      );
       this.lastNow = nowSec;
+      // Built on first use; only rules with a condition need it
+      let scope: Record<string, unknown> | null = null;
+      let eventContext: EventMatchContext | null = null;
+      let textContext: Record<string, unknown> | null = null;
+      // Fill a tip template from the trigger's values, then the snapshot
+      const render = (tpl: string, vars: Record<string, unknown>) => {
+        textContext = textContext || templateContext(snap, nowSec);
+        return renderTemplate(tpl, { ...textContext, ...vars });
+      };
 
       for (const mod of this.config.modules || []) {
         if (mod?.enabled === false) continue;
@@ -215,6 +645,12 @@ export class TipsEngine extends EventEmitter {
           if (rule?.enabled === false) continue;
           if (!inPhase(rule.when, nowSec)) continue;
           if (!modeAllowed(rule.when, mode)) continue;
+          if (this.conditions.has(rule)) {
+            const expr = this.conditions.get(rule);
+            if (!expr) continue;
+            scope = scope || conditionScope(snap);
+            if (!evaluateExpression(expr, scope)) continue;
+          }
 
           if (rule.trigger.type === "cannon_wave") {
             if (nowSec >= 1200) continue;
@@ -225,31 +661,16 @@ export class TipsEngine extends EventEmitter {
               for (const lead of leads) {
                 const key: FiredKey = `${rule.id}:${lead}:${wave.waveIndex}`;
                 const withinWindow =
-                  timeToSpawn <= lead && timeToSpawn > lead - 2.1;
-                if (withinWindow && !this.fired.has(key)) {
-                  // throttle per key if configured
-                  const throttleMs = Math.max(
-                    0,
-                    Math.floor((rule.notify?.throttleSec || 0) * 1000)
-                  );
-                  if (throttleMs > 0) {
-                    const prev = this.lastFiredAtMs.get(key) || 0;
-                    if (Date.now() - prev < throttleMs) {
-                      continue;
-                    }
-                    this.lastFiredAtMs.set(key, Date.now());
-                  }
-                  this.fired.add(key);
-                  const chan = (rule.notify?.channels || []).find(
-                    (c) => c.type === "overlay"
-                  ) as TipChannelOverlay | undefined;
-                  const titleTpl = chan?.title || "Cannon wave in {lead}s";
-                  const bodyTpl =
-                    chan?.body || "Prepare to secure the cannon minion.";
-                  const payload: TipPayload = {
+                  timeToSpawn <= lead && timeToSpawn > lead - windowSec;
+                if (withinWindow && this.claim(rule, key)) {
+                  const chan = this.overlayChannel(rule);
+                  const fill = (tpl: string) => render(tpl, { lead });
+                  const payload: TipContent = {
                     id: rule.id,
-                    title: titleTpl.replace("{lead}", String(lead)),
-                    body: bodyTpl.replace("{lead}", String(lead)),
+                    title: fill(chan?.title || "Cannon wave in {lead}s"),
+                    body: fill(
+                      chan?.body || "Prepare to secure the cannon minion."
+                    ),
                     icon: chan?.icon || "🛡️",
                     severity: chan?.severity || "info",
                     stickyMs: chan?.stickyMs ?? 4000,
@@ -259,18 +680,15 @@ export class TipsEngine extends EventEmitter {
                       spawnTime: wave.spawnTime,
                     },
                   };
-                  this.emit("tip", payload);
+                  this.deliver(rule, payload, fill);
                 }
               }
             }
           } else if (rule.trigger.type === "objective_spawn") {
             const leads = getLeadList(rule.trigger.leadSeconds);
             const next =
-              (rule.trigger.objective === "dragon"
-                ? this.safeNext(this.safeObj(snap, "dragon"))
-                : rule.trigger.objective === "herald"
-                ? this.safeNext(this.safeObj(snap, "herald"))
-                : this.safeNext(this.safeObj(snap, "baron"))) ?? null;
+              this.safeNext(this.safeObj(snap, rule.trigger.objective)) ??
+              null;
             if (!next || next <= 0) continue;
             const timeToSpawn = next - nowSec;
             if (timeToSpawn <= 0) continue;
@@ -279,32 +697,21 @@ export class TipsEngine extends EventEmitter {
                 rule.trigger.objective
               }:${lead}:${Math.round(next)}`;
               const withinWindow =
-                timeToSpawn <= lead && timeToSpawn > lead - 2.1;
-              if (withinWindow && !this.fired.has(key)) {
-                const throttleMs = Math.max(
-                  0,
-                  Math.floor((rule.notify?.throttleSec || 0) * 1000)
-                );
-                if (throttleMs > 0) {
-                  const prev = this.lastFiredAtMs.get(key) || 0;
-                  if (Date.now() - prev < throttleMs) {
-                    continue;
-                  }
-                  this.lastFiredAtMs.set(key, Date.now());
-                }
-                this.fired.add(key);
-                const chan = (rule.notify?.channels || []).find(
-                  (c) => c.type === "overlay"
-                ) as TipChannelOverlay | undefined;
-                const titleTpl =
-                  chan?.title || `Prepare ${rule.trigger.objective} in {lead}s`;
-                const bodyTpl =
-                  chan?.body ||
-                  `Group and secure vision for ${rule.trigger.objective}.`;
-                const payload: TipPayload = {
+                timeToSpawn <= lead && timeToSpawn > lead - windowSec;
+              if (withinWindow && this.claim(rule, key)) {
+                const chan = this.overlayChannel(rule);
+                const vars = {
+                  lead,
+                  objective: rule.trigger.objective,
+                  spawnTime: next,
+                };
+                const fill = (tpl: string) => render(tpl, vars);
+                const payload: TipContent = {
                   id: rule.id,
-                  title: titleTpl.replace("{lead}", String(lead)),
-                  body: bodyTpl.replace("{lead}", String(lead)),
+                  title: fill(chan?.title || "Prepare {objective} in {lead}s"),
+                  body: fill(
+                    chan?.body || "Group and secure vision for {objective}."
+                  ),
                   icon: chan?.icon || "⚑",
                   severity: chan?.severity || "warning",
                   stickyMs: chan?.stickyMs ?? 5000,
@@ -314,22 +721,358 @@ export class TipsEngine extends EventEmitter {
                     nextSpawnTime: next,
                   },
                 };
-                this.emit("tip", payload);
+                this.deliver(rule, payload, fill);
+              }
+            }
+          } else if (rule.trigger.type === "team_advantage_window") {
+            const trigger = rule.trigger;
+            const minDead = Math.max(1, trigger.minEnemiesDead ?? 2);
+            const enemies = snap.deaths?.enemies || [];
+            // Largest group of enemies that stays down for the whole window
+            let count = 0;
+            for (let k = enemies.length; k >= minDead; k--) {
+              const window = advantageWindowSec(enemies, nowSec, k);
+              if (window >= trigger.minWindowSec) {
+                count = k;
+                break;
+              }
+            }
+            if (!count) {
+              this.advantageCounts.delete(rule.id);
+              continue;
+            }
+            // Edge-triggered: announce once, and again only if more go down
+            if (count <= (this.advantageCounts.get(rule.id) ?? 0)) continue;
+            const key: FiredKey = `${rule.id}:${count}`;
+            this.fired.delete(key);
+            if (!this.claim(rule, key)) continue;
+            this.advantageCounts.set(rule.id, count);
+            const windowSec = Math.floor(
+              advantageWindowSec(enemies, nowSec, count)
+            );
+            const chan = this.overlayChannel(rule);
+            const fill = (tpl: string) =>
+              render(tpl, { count, window: windowSec });
+            const payload: TipContent = {
+              id: rule.id,
+              title: fill(chan?.title || "{count} enemies dead for {window}s"),
+              body: chan?.body ? fill(chan.body) : undefined,
+              icon: chan?.icon || "💀",
+              severity: chan?.severity || "warning",
+              stickyMs: chan?.stickyMs ?? 5000,
+              metadata: { count, windowSec },
+            };
+            this.deliver(rule, payload, fill);
+          } else if (rule.trigger.type === "skill_point_unspent") {
+            const trigger = rule.trigger;
+            const level = Number(snap.player?.level) || 0;
+            const ab = snap.abilities;
+            if (!ab || !level) continue;
+            const lvl = (k: "q" | "w" | "e" | "r") => Number(ab[k]?.level) || 0;
+            const unspent = level - (lvl("q") + lvl("w") + lvl("e") + lvl("r"));
+            const rCap = level >= 16 ? 3 : level >= 11 ? 2 : level >= 6 ? 1 : 0;
+            const pending =
+              unspent > 0 && (trigger.ability !== "r" || lvl("r") < rCap);
+            if (!pending) {
+              this.unspentSince.delete(rule.id);
+              continue;
+            }
+            const seen = this.unspentSince.get(rule.id);
+            if (!seen || seen.level !== level) {
+              this.unspentSince.set(rule.id, { level, since: nowSec });
+            }
+            const since = this.unspentSince.get(rule.id)!.since;
+            if (nowSec - since < (trigger.graceSec ?? 5)) continue;
+            if (!this.claim(rule, `${rule.id}:${level}`)) continue;
+            const chan = this.overlayChannel(rule);
+            const fill = (tpl: string) =>
+              render(tpl, { level, points: unspent });
+            const payload: TipContent = {
+              id: rule.id,
+              title: fill(
+                chan?.title ||
+                  (trigger.ability === "r"
+                    ? "Level {level}: rank up your ultimate"
+                    : "{points} unspent skill {points|plural:point}")
+              ),
+              body: chan?.body ? fill(chan.body) : undefined,
+              icon: chan?.icon || "⬆️",
+              severity: chan?.severity || "info",
+              stickyMs: chan?.stickyMs ?? 4000,
+              metadata: { level, unspent, ability: trigger.ability ?? "any" },
+            };
+            this.deliver(rule, payload, fill);
+          } else if (rule.trigger.type === "cs_benchmark") {
+            const trigger = rule.trigger;
+            const bench = snap.csBenchmark;
+            if (!bench || typeof bench.target !== "number") continue;
+            const minutes =
+              trigger.checkpoints ||
+              (bench.targets || []).map((t) => t.minute);
+            // Fire on the first evaluation at or after a checkpoint
+            const minute = minutes.find(
+              (m) => nowSec >= m * 60 && nowSec - m * 60 < windowSec
+            );
+            if (minute === undefined) continue;
+            const cs = Number(bench.cs) || 0;
+            const diff = cs - bench.target;
+            const report = trigger.report ?? "behind";
+            if (Math.abs(diff) < (trigger.minDiff ?? 1)) continue;
+            if (report === "behind" && diff > 0) continue;
+            if (report === "ahead" && diff < 0) continue;
+            if (!this.claim(rule, `${rule.id}:${minute}`)) continue;
+            const max = typeof bench.max === "number" ? bench.max : null;
+            const chan = this.overlayChannel(rule);
+            const fill = (tpl: string) =>
+              render(tpl, {
+                diff: Math.abs(diff),
+                cs,
+                target: bench.target,
+                max,
+                pct: max ? Math.round((cs / max) * 100) : null,
+                time: `${minute}:00`,
+                direction: diff < 0 ? "behind" : "ahead of",
+              });
+            const payload: TipContent = {
+              id: rule.id,
+              title: fill(
+                chan?.title || "You're {diff} CS {direction} target at {time}"
+              ),
+              body: chan?.body ? fill(chan.body) : undefined,
+              icon: chan?.icon || "👾",
+              severity: chan?.severity || (diff < 0 ? "warning" : "info"),
+              stickyMs: chan?.stickyMs ?? 5000,
+              metadata: { minute, cs, target: bench.target, max, diff },
+            };
+            this.deliver(rule, payload, fill);
+          } else if (rule.trigger.type === "event") {
+            const trigger = rule.trigger;
+            const names = Array.isArray(trigger.event)
+              ? trigger.event
+              : [trigger.event];
+            eventContext = eventContext || this.eventContext(snap);
+            for (const ev of snap.raw?.events || []) {
+              if (!names.includes(ev?.EventName)) continue;
+              const t = Number(ev.EventTime) || 0;
+              if (t > nowSec || nowSec - t > EVENT_MAX_AGE_SEC) continue;
+              if (!eventMatches(ev, trigger.match, eventContext)) continue;
+              const key: FiredKey = `${rule.id}:event:${ev.EventID ?? t}`;
+              if (!this.claim(rule, key)) continue;
+              const chan = this.overlayChannel(rule);
+              // {FieldName} placeholders read the event's fields
+              const fill = (tpl: string) => render(tpl, { ...ev });
+              const payload: TipContent = {
+                id: rule.id,
+                title: fill(chan?.title || "{EventName}"),
+                body: chan?.body ? fill(chan.body) : undefined,
+                icon: chan?.icon || "📣",
+                severity: chan?.severity || "info",
+                stickyMs: chan?.stickyMs ?? 4000,
+                metadata: { event: ev },
+              };
+              this.deliver(rule, payload, fill);
+            }
+          } else if (rule.trigger.type === "stat_threshold") {
+            const trigger = rule.trigger;
+            const value =
+              trigger.stat === "level"
+                ? snap.player?.level
+                : snap.vitals?.[trigger.stat];
+            if (typeof value !== "number") continue;
+            const rising = typeof trigger.above === "number";
+            const threshold = rising ? trigger.above : trigger.below;
+            if (typeof threshold !== "number") continue;
+            const hysteresis = Math.max(0, trigger.hysteresis ?? 0);
+            const crossed = rising ? value > threshold : value < threshold;
+            const rearm = rising
+              ? value <= threshold - hysteresis
+              : value >= threshold + hysteresis;
+            const state = this.thresholds.get(rule.id);
+            if (!state) {
+              // First sample: a stat already past the threshold is no edge
+              this.thresholds.set(rule.id, {
+                armed: !crossed,
+                firedAt: -Infinity,
+              });
+              continue;
+            }
+            if (!crossed) {
+              if (rearm) state.armed = true;
+              continue;
+            }
+            if (!state.armed) continue;
+            // Stays armed through the cooldown (or a throttle), so a stat
+            // still past the threshold fires once it's over
+            if (nowSec - state.firedAt < (trigger.cooldownSec ?? 0)) continue;
+            // `armed` tracks the edge; one fired key per rule is enough
+            const key = `${rule.id}:threshold`;
+            this.fired.delete(key);
+            if (!this.claim(rule, key)) continue;
+            state.armed = false;
+            state.firedAt = nowSec;
+            const chan = this.overlayChannel(rule);
+            const fill = (tpl: string) =>
+              render(tpl, {
+                value: Math.round(value),
+                threshold,
+                stat: trigger.stat,
+              });
+            const payload: TipContent = {
+              id: rule.id,
+              title: fill(
+                chan?.title ||
+                  `{stat} ${rising ? "above" : "below"} {threshold}`
+              ),
+              body: chan?.body ? fill(chan.body) : undefined,
+              icon: chan?.icon || "📊",
+              severity: chan?.severity || "info",
+              stickyMs: chan?.stickyMs ?? 4000,
+              metadata: { stat: trigger.stat, value, threshold },
+            };
+            this.deliver(rule, payload, fill);
+          } else if (rule.trigger.type === "buff_expiry") {
+            const trigger = rule.trigger;
+            const leads = getLeadList(trigger.leadSeconds);
+            const wanted =
+              trigger.team === "ally"
+                ? "myTeam"
+                : trigger.team === "enemy"
+                ? "enemyTeam"
+                : null;
+            for (const buff of snap.buffs || []) {
+              if (buff?.kind !== trigger.buff) continue;
+              if (wanted && buff.team !== wanted) continue;
+              const expiresAt = Number(buff.expiresAt);
+              if (!Number.isFinite(expiresAt)) continue;
+              const timeLeft = expiresAt - nowSec;
+              if (timeLeft <= 0) continue;
+              const side = buff.team === "myTeam" ? "Our" : "Enemy";
+              for (const lead of leads) {
+                const key: FiredKey = `${rule.id}:${trigger.buff}:${
+                  buff.team
+                }:${lead}:${Math.round(expiresAt)}`;
+                const withinWindow =
+                  timeLeft <= lead && timeLeft > lead - windowSec;
+                if (withinWindow && this.claim(rule, key)) {
+                  const chan = this.overlayChannel(rule);
+                  const label = trigger.buff === "baron" ? "Baron" : "Elder";
+                  const fill = (tpl: string) =>
+                    render(tpl, { lead, side, buff: label });
+                  const payload: TipContent = {
+                    id: rule.id,
+                    title: fill(
+                      chan?.title || `${side} ${label} ends in {lead}s`
+                    ),
+                    body: chan?.body ? fill(chan.body) : undefined,
+                    icon: chan?.icon || "⏳",
+                    severity: chan?.severity || "warning",
+                    stickyMs: chan?.stickyMs ?? 5000,
+                    metadata: {
+                      lead,
+                      buff: trigger.buff,
+                      team: buff.team,
+                      expiresAt,
+                    },
+                  };
+                  this.deliver(rule, payload, fill);
+                }
               }
             }
           }
         }
       }
     } catch {
-      // ignore tick errors
+      // ignore evaluation errors
     }
   }
 
+  /** Mark a tip key as fired unless it already fired or is throttled. */
+  private claim(rule: Rule, key: FiredKey): boolean {
+    if (this.fired.has(key)) return false;
+    const throttleMs = Math.max(
+      0,
+      Math.floor((rule.notify?.throttleSec || 0) * 1000)
+    );
+    if (throttleMs > 0) {
+      const prev = this.lastFiredAtMs.get(key) || 0;
+      if (this.clock.now() - prev < throttleMs) return false;
+      this.lastFiredAtMs.set(key, this.clock.now());
+    }
+    this.fired.add(key);
+    return true;
+  }
+
+  // Who is who for event filters, from the snapshot's player list
+  private eventContext(snap: SnapshotLike): EventMatchContext {
+    return {
+      nameToTeam: buildNameToTeam(snap.raw?.players || []),
+      myTeam: String(snap.team?.myTeam || snap.player?.team || ""),
+      // player.name is the full Riot ID (Name#TAG); events use the name only
+      myName: String(snap.player?.name || "").split("#")[0],
+    };
+  }
+
+  private overlayChannel(rule: Rule): TipChannelOverlay | undefined {
+    return (rule.notify?.channels || []).find(
+      (c): c is TipChannelOverlay => c.type === "overlay"
+    );
+  }
+
+  // Fill in each channel's copy of the tip (its own text, or the payload's)
+  // and emit, leaving out channels still inside their own throttle
+  private deliver(
+    rule: Rule,
+    payload: TipContent,
+    fill: (tpl: string) => string
+  ) {
+    const channels: TipChannel[] = rule.notify?.channels?.length
+      ? rule.notify.channels
+      : [{ type: "overlay" }];
+    const deliveries: TipDelivery[] = [];
+    channels.forEach((chan, index) => {
+      if (!CHANNEL_TYPES.includes(chan?.type)) return;
+      const throttleMs = Math.max(0, (chan.throttleSec || 0) * 1000);
+      const key = `${rule.id}#${index}`;
+      const now = this.clock.now();
+      if (now - (this.channelSentAtMs.get(key) ?? -Infinity) < throttleMs)
+        return;
+      this.channelSentAtMs.set(key, now);
+      const delivery: TipDelivery = {
+        type: chan.type,
+        title: chan.title ? fill(chan.title) : payload.title,
+        body: chan.body ? fill(chan.body) : payload.body,
+        icon: chan.icon || payload.icon,
+        severity: chan.severity || payload.severity || "info",
+      };
+      if (chan.type === "overlay" || chan.type === "dashboard")
+        delivery.stickyMs = chan.stickyMs ?? payload.stickyMs;
+      if (chan.type === "overlay" && chan.sound)
+        delivery.sound = { name: String(chan.sound), volume: 1 };
+      if (chan.type === "sound") {
+        const volume = Number(chan.volume ?? 1);
+        delivery.sound = {
+          name: String(chan.sound || delivery.severity),
+          volume: Number.isFinite(volume)
+            ? Math.max(0, Math.min(1, volume))
+            : 1,
+        };
+      }
+      if (chan.type === "log") {
+        delivery.file = chan.file;
+        delivery.format = chan.format === "json" ? "json" : "text";
+      }
+      if (chan.type === "webhook") delivery.url = String(chan.url);
+      deliveries.push(delivery);
+    });
+    if (deliveries.length)
+      this.emit("tip", { ...payload, channels: deliveries });
+  }
+
   private safeObj(
     snap: SnapshotLike,
-    key: "dragon" | "herald" | "baron"
+    key: TriggerObjectiveSpawn["objective"]
   ): { nextSpawnTime?: number } | undefined {
-    return (snap.objectives as any)?.[key];
+    return (snap.objectives as any)?.[key] ?? undefined;
   }
   private safeNext(obj?: { nextSpawnTime?: number }): number | undefined {
     if (!obj) return undefined;
@@ -0,0 +1,385 @@
+// Condition expressions for tips rules (`when.condition`), e.g.
+//
+//   role == "jungle" and team.killDiff < 0
+//   player.level >= 6 and not has_item("Zhonya's Hourglass")
+//
+// A small parser and evaluator with no access to JS: only literals, snapshot
+// fields, operators and the functions listed in FUNCTIONS. Field paths and
+// function names are checked when the rule loads.
+
+export type Expr =
+  | { kind: "literal"; value: unknown }
+  | { kind: "field"; path: string[]; pos: number }
+  | { kind: "list"; items: Expr[] }
+  | { kind: "call"; name: string; args: Expr[]; pos: number }
+  | { kind: "unary"; op: "-" | "not"; arg: Expr }
+  | { kind: "binary"; op: string; left: Expr; right: Expr };
+
+// The fields a scope provides: each name maps to its own fields, or to null
+// for a value with none (a number, string or list)
+export type FieldSchema = { [name: string]: FieldSchema | null };
+
+export class ExprError extends Error {
+  constructor(message: string, readonly pos: number) {
+    super(`${message} (at character ${pos + 1})`);
+  }
+}
+
+type Token = {
+  type: "num" | "str" | "ident" | "op" | "end";
+  value: string;
+  pos: number;
+};
+
+const OPERATORS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  ".",
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/[0-9]/.test(c)) {
+      while (i < source.length && /[0-9.]/.test(source[i])) i++;
+      const value = source.slice(start, i);
+      if (!Number.isFinite(Number(value)))
+        throw new ExprError(`Invalid number "${value}"`, start);
+      tokens.push({ type: "num", value, pos: start });
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      i++;
+      let value = "";
+      while (i < source.length && source[i] !== c) {
+        if (source[i] === "\\" && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new ExprError("Unterminated string", start);
+      i++;
+      tokens.push({ type: "str", value, pos: start });
+      continue;
+    }
+    if (/[A-Za-z_]/.test(c)) {
+      while (i < source.length && /[A-Za-z0-9_]/.test(source[i])) i++;
+      tokens.push({ type: "ident", value: source.slice(start, i), pos: start });
+      continue;
+    }
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw new ExprError(`Unexpected character "${c}"`, start);
+    i += op.length;
+    tokens.push({ type: "op", value: op, pos: start });
+  }
+  tokens.push({ type: "end", value: "", pos: source.length });
+  return tokens;
+}
+
+const KEYWORD_OPS = new Map<string, string>([
+  ["and", "&&"],
+  ["or", "||"],
+  ["not", "!"],
+  ["in", "in"],
+]);
+
+/** Parse an expression; throws ExprError on a syntax error. */
+export function parseExpression(source: string): Expr {
+  const tokens = tokenize(String(source));
+  let at = 0;
+  const peek = () => tokens[at];
+  // Operator at the cursor, with and/or/not/in read as operators
+  const opAt = (t: Token) =>
+    t.type === "op"
+      ? t.value
+      : t.type === "ident"
+      ? KEYWORD_OPS.get(t.value) || ""
+      : "";
+  const accept = (op: string) => {
+    if (opAt(peek()) !== op) return false;
+    at++;
+    return true;
+  };
+  const expect = (op: string) => {
+    if (!accept(op)) throw new ExprError(`Expected "${op}"`, peek().pos);
+  };
+
+  const binary = (ops: string[], next: () => Expr) => (): Expr => {
+    let left = next();
+    while (ops.includes(opAt(peek()))) {
+      const op = opAt(tokens[at++]);
+      left = { kind: "binary", op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Expr => {
+    const t = tokens[at++];
+    if (t.type === "num") return { kind: "literal", value: Number(t.value) };
+    if (t.type === "str") return { kind: "literal", value: t.value };
+    if (t.type === "op" && t.value === "(") {
+      const inner = or();
+      expect(")");
+      return inner;
+    }
+    if (t.type === "op" && t.value === "[") {
+      const items: Expr[] = [];
+      if (!accept("]")) {
+        do items.push(or());
+        while (accept(","));
+        expect("]");
+      }
+      return { kind: "list", items };
+    }
+    if (t.type === "ident" && !KEYWORD_OPS.has(t.value)) {
+      if (t.value === "true") return { kind: "literal", value: true };
+      if (t.value === "false") return { kind: "literal", value: false };
+      if (t.value === "null") return { kind: "literal", value: null };
+      if (accept("(")) {
+        const args: Expr[] = [];
+        if (!accept(")")) {
+          do args.push(or());
+          while (accept(","));
+          expect(")");
+        }
+        return { kind: "call", name: t.value, args, pos: t.pos };
+      }
+      const path = [t.value];
+      while (accept(".")) {
+        const part = tokens[at++];
+        if (part.type !== "ident")
+          throw new ExprError('Expected a field name after "."', part.pos);
+        path.push(part.value);
+      }
+      return { kind: "field", path, pos: t.pos };
+    }
+    throw new ExprError(
+      t.type === "end"
+        ? "Unexpected end of expression"
+        : `Unexpected "${t.value}"`,
+      t.pos
+    );
+  };
+  const unary = (): Expr => {
+    if (accept("-")) return { kind: "unary", op: "-", arg: unary() };
+    if (accept("!")) return { kind: "unary", op: "not", arg: unary() };
+    return primary();
+  };
+  const mul = binary(["*", "/", "%"], unary);
+  const add = binary(["+", "-"], mul);
+  const cmp = binary(["<", "<=", ">", ">=", "==", "!=", "in"], add);
+  const and = binary(["&&"], cmp);
+  const or = binary(["||"], and);
+
+  const expr = or();
+  if (peek().type !== "end")
+    throw new ExprError(`Unexpected "${peek().value}"`, peek().pos);
+  return expr;
+}
+
+const lower = (v: unknown) => (typeof v === "string" ? v.toLowerCase() : v);
+
+// Strings compare case-insensitively ("Lee Sin" == "lee sin")
+function equals(a: unknown, b: unknown): boolean {
+  return lower(a) === lower(b);
+}
+
+function contains(haystack: unknown, needle: unknown): boolean {
+  if (Array.isArray(haystack)) return haystack.some((h) => equals(h, needle));
+  if (typeof haystack === "string" && typeof needle === "string")
+    return haystack.toLowerCase().includes(needle.toLowerCase());
+  return false;
+}
+
+const num = (v: unknown) => (typeof v === "number" ? v : null);
+
+const FUNCTIONS: Record<string, (scope: any, ...args: unknown[]) => unknown> =
+  {
+    // True if the player owns an item with this name
+    has_item: (scope, name) => contains(scope?.items, name),
+    count: (_, list) => (Array.isArray(list) ? list.length : 0),
+    lower: (_, s) => (typeof s === "string" ? s.toLowerCase() : s),
+    upper: (_, s) => (typeof s === "string" ? s.toUpperCase() : s),
+    abs: (_, n) => (typeof n === "number" ? Math.abs(n) : null),
+    min: (_, ...ns) => {
+      const list = ns.filter((n): n is number => typeof n === "number");
+      return list.length ? Math.min(...list) : null;
+    },
+    max: (_, ...ns) => {
+      const list = ns.filter((n): n is number => typeof n === "number");
+      return list.length ? Math.max(...list) : null;
+    },
+  };
+
+// First part of a field path the schema doesn't know, as an error
+function fieldError(
+  path: string[],
+  schema: FieldSchema,
+  pos: number
+): ExprError | null {
+  let fields: FieldSchema | null = schema;
+  for (let i = 0; i < path.length; i++) {
+    const name = path.slice(0, i + 1).join(".");
+    const parent = path.slice(0, i).join(".");
+    if (!fields)
+      return new ExprError(
+        `Unknown field "${name}" ("${parent}" has no fields)`,
+        pos
+      );
+    if (!Object.prototype.hasOwnProperty.call(fields, path[i]))
+      return new ExprError(
+        `Unknown field "${name}" (use one of: ${Object.keys(fields).join(
+          ", "
+        )})`,
+        pos
+      );
+    fields = fields[path[i]];
+  }
+  return null;
+}
+
+/**
+ * Check field paths and function names against what the scope provides.
+ * Returns the first problem, or null when the expression is valid.
+ */
+export function validateExpression(
+  expr: Expr,
+  roots: FieldSchema
+): ExprError | null {
+  switch (expr.kind) {
+    case "literal":
+      return null;
+    case "field":
+      return fieldError(expr.path, roots, expr.pos);
+    case "list":
+      for (const item of expr.items) {
+        const err = validateExpression(item, roots);
+        if (err) return err;
+      }
+      return null;
+    case "call":
+      if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, expr.name))
+        return new ExprError(
+          `Unknown function "${expr.name}" (use one of: ${Object.keys(
+            FUNCTIONS
+          ).join(", ")})`,
+          expr.pos
+        );
+      for (const arg of expr.args) {
+        const err = validateExpression(arg, roots);
+        if (err) return err;
+      }
+      return null;
+    case "unary":
+      return validateExpression(expr.arg, roots);
+    case "binary":
+      return (
+        validateExpression(expr.left, roots) ||
+        validateExpression(expr.right, roots)
+      );
+  }
+}
+
+/** Evaluate against a scope; missing fields read as null. */
+export function evaluateExpression(expr: Expr, scope: any): unknown {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "field": {
+      let value = scope;
+      for (const part of expr.path) {
+        if (value === null || typeof value !== "object") return null;
+        // Own data only; never reach into prototypes
+        value = Object.prototype.hasOwnProperty.call(value, part)
+          ? value[part]
+          : null;
+      }
+      return value ?? null;
+    }
+    case "list":
+      return expr.items.map((e) => evaluateExpression(e, scope));
+    case "call":
+      return FUNCTIONS[expr.name](
+        scope,
+        ...expr.args.map((a) => evaluateExpression(a, scope))
+      );
+    case "unary": {
+      const v = evaluateExpression(expr.arg, scope);
+      if (expr.op === "not") return !v;
+      return typeof v === "number" ? -v : null;
+    }
+    case "binary": {
+      if (expr.op === "&&")
+        return (
+          !!evaluateExpression(expr.left, scope) &&
+          !!evaluateExpression(expr.right, scope)
+        );
+      if (expr.op === "||")
+        return (
+          !!evaluateExpression(expr.left, scope) ||
+          !!evaluateExpression(expr.right, scope)
+        );
+      const a = evaluateExpression(expr.left, scope);
+      const b = evaluateExpression(expr.right, scope);
+      switch (expr.op) {
+        case "==":
+          return equals(a, b);
+        case "!=":
+          return !equals(a, b);
+        case "in":
+          return contains(b, a);
+        case "+":
+          if (typeof a === "string" || typeof b === "string")
+            return `${a ?? ""}${b ?? ""}`;
+      }
+      const x = num(a);
+      const y = num(b);
+      // Comparisons with a missing or non-numeric side are false
+      if (x === null || y === null)
+        return ["<", "<=", ">", ">="].includes(expr.op) ? false : null;
+      switch (expr.op) {
+        case "+":
+          return x + y;
+        case "<":
+          return x < y;
+        case "<=":
+          return x <= y;
+        case ">":
+          return x > y;
+        case ">=":
+          return x >= y;
+        case "-":
+          return x - y;
+        case "*":
+          return x * y;
+        case "/":
+          return y === 0 ? null : x / y;
+        case "%":
+          return y === 0 ? null : x % y;
+      }
+      return null;
+    }
+  }
+}
@@ -0,0 +1,306 @@
+import * as path from "path";
+import { TipsEngine, TipPayload } from "./tipsEngine";
+import {
+  buildAggregatedSnapshot,
+  buildNameToTeam,
+  computeActiveBuffs,
+  computeObjectiveTimers,
+} from "./riotClient";
+import { readSessionFile } from "./sessionFile";
+import { advanceDeathState } from "./deathTracker";
+import { targetCsAt } from "./csBenchmark";
+import { readMatchFile, LoadedMatch, MatchTip } from "./matchHistory";
+
+// Headless tips simulation: runs TipsEngine against a recorded or synthetic
+// timeline on a virtual clock and reports every tip with its game time.
+//
+//   node dist/src/tipsSim.js [--session <file> | --match <file> | --synthetic]
+//     [--rules data/tips] [--mode CLASSIC] [--from 0] [--until 1800]
+//     [--step 1] [--json] [--expect cannon_incoming=3@150 ...]
+
+export type TimelinePoint = { gameTime: number; snapshot: any };
+
+export type SimulatedTip = { gameTime: number; tip: TipPayload };
+
+export interface SimulationOptions {
+  timeline: TimelinePoint[];
+  rulesDir?: string;
+  from?: number;
+  until?: number;
+  step?: number; // seconds of game time per engine tick
+}
+
+function unwrapEvents(data: any): any[] {
+  if (Array.isArray(data)) return data;
+  if (Array.isArray(data?.Events)) return data.Events;
+  return [];
+}
+
+// Minimal snapshot the engine needs, rebuilt from raw Live Client payloads
+function snapshotFromRaw(gameStats: any, events: any[]): any {
+  const time = Number(gameStats?.gameTime) || 0;
+  return {
+    game: { mode: gameStats?.gameMode || "", time },
+    objectives: computeObjectiveTimers(time, events),
+    raw: { gameStats, events },
+  };
+}
+
+export async function timelineFromSession(
+  file: string
+): Promise<TimelinePoint[]> {
+  const session = readSessionFile(file);
+  const points: TimelinePoint[] = [];
+  for (const f of session.frames) {
+    const all = f.responses["/liveclientdata/allgamedata"] as any;
+    if (all?.gameData) {
+      points.push({
+        gameTime: f.gameTime,
+        snapshot: await buildAggregatedSnapshot(all, { assets: false }),
+      });
+      continue;
+    }
+    // Sessions holding separate endpoint payloads instead of allgamedata
+    const gameStats = (f.responses["/liveclientdata/gamestats"] as any) || {};
+    const events = unwrapEvents(f.responses["/liveclientdata/eventdata"]);
+    points.push({
+      gameTime: f.gameTime,
+      snapshot: snapshotFromRaw(gameStats, events),
+    });
+  }
+  return points;
+}
+
+export function timelineFromMatch(file: string): TimelinePoint[] {
+  const match = readMatchFile(file);
+  if (!match) throw new Error(`Could not read match file ${file}`);
+  return matchTimeline(match);
+}
+
+// Frames carry only the events up to their own time; give every point the
+// whole list so snapshotAt() releases each event at its exact game time
+// instead of at the next stored frame.
+export function matchTimeline(match: LoadedMatch): TimelinePoint[] {
+  const last = match.frames[match.frames.length - 1];
+  const events = last?.snapshot.raw?.events || [];
+  return match.frames.map((f) => ({
+    gameTime: f.gameTime,
+    snapshot: { ...f.snapshot, raw: { ...f.snapshot.raw, events } },
+  }));
+}
+
+/**
+ * Tips the rules in rulesDir would have fired over a recorded match, stamped
+ * with a wall clock interpolated from the nearest stored frame.
+ */
+export async function simulateMatchTips(
+  match: LoadedMatch,
+  rulesDir?: string
+): Promise<MatchTip[]> {
+  const tips = await simulateTips({ timeline: matchTimeline(match), rulesDir });
+  return tips.map(({ gameTime, tip }) => {
+    let frame = match.frames[0];
+    for (const f of match.frames) {
+      if (f.gameTime <= gameTime) frame = f;
+      else break;
+    }
+    const wallClock = frame
+      ? frame.wallClock + (gameTime - frame.gameTime) * 1000
+      : 0;
+    return { gameTime, wallClock, tip };
+  });
+}
+
+export function syntheticTimeline(
+  mode: string,
+  until: number,
+  events: any[] = []
+): TimelinePoint[] {
+  return [
+    {
+      gameTime: 0,
+      snapshot: snapshotFromRaw({ gameMode: mode, gameTime: 0 }, events),
+    },
+    {
+      gameTime: until,
+      snapshot: snapshotFromRaw({ gameMode: mode, gameTime: until }, events),
+    },
+  ];
+}
+
+// Snapshot as of game time t: latest point at or before t, with the clock
+// and event-derived timers advanced to t.
+function snapshotAt(timeline: TimelinePoint[], t: number): any {
+  let point = timeline[0];
+  for (const p of timeline) {
+    if (p.gameTime <= t) point = p;
+    else break;
+  }
+  const snap = point.snapshot || {};
+  const events = (snap.raw?.events || []).filter(
+    (ev: any) => (Number(ev?.EventTime) || 0) <= t
+  );
+  const teams = snap.team?.myTeam
+    ? {
+        nameToTeam: buildNameToTeam(snap.raw?.players || []),
+        myTeam: snap.team.myTeam,
+      }
+    : undefined;
+  const objectives = computeObjectiveTimers(t, events, teams);
+  return {
+    ...snap,
+    game: { ...(snap.game || {}), time: t },
+    raw: { ...(snap.raw || {}), events },
+    objectives,
+    buffs: computeActiveBuffs(
+      t,
+      objectives.ledger,
+      events,
+      snap.raw?.players || []
+    ),
+    deaths: snap.deaths ? advanceDeathState(snap.deaths, t) : undefined,
+    csBenchmark: snap.csBenchmark
+      ? {
+          ...snap.csBenchmark,
+          target: targetCsAt(snap.csBenchmark.targets || [], t),
+        }
+      : undefined,
+  };
+}
+
+export async function simulateTips(
+  options: SimulationOptions
+): Promise<SimulatedTip[]> {
+  const timeline = options.timeline
+    .slice()
+    .sort((a, b) => a.gameTime - b.gameTime);
+  if (!timeline.length) return [];
+  const step = options.step && options.step > 0 ? options.step : 1;
+  const from = options.from ?? timeline[0].gameTime;
+  const until = options.until ?? timeline[timeline.length - 1].gameTime;
+
+  let t = from;
+  const engine = new TipsEngine({
+    configDir: options.rulesDir,
+    // Virtual wall clock tied to game time; snapshots are pushed below
+    clock: {
+      now: () => t * 1000,
+      setInterval: () => null,
+      clearInterval: () => undefined,
+    },
+    watch: false,
+  });
+  const fired: SimulatedTip[] = [];
+  engine.on("tip", (tip: TipPayload) => fired.push({ gameTime: t, tip }));
+  for (; t <= until; t += step) {
+    engine.ingest(snapshotAt(timeline, t));
+  }
+  return fired;
+}
+
+type Expectation = {
+  raw: string;
+  ruleId: string;
+  op: "=" | ">=" | "<=";
+  count: number;
+  before?: number;
+};
+
+function parseExpectation(raw: string): Expectation {
+  const m = /^([\w.-]+)(>=|<=|=)(\d+)(?:@(\d+(?:\.\d+)?))?$/.exec(raw.trim());
+  if (!m) {
+    throw new Error(
+      `Invalid --expect "${raw}" (use <ruleId>=<count>[@<beforeGameSec>])`
+    );
+  }
+  return {
+    raw,
+    ruleId: m[1],
+    op: m[2] as Expectation["op"],
+    count: Number(m[3]),
+    before: m[4] !== undefined ? Number(m[4]) : undefined,
+  };
+}
+
+export function checkExpectation(
+  tips: SimulatedTip[],
+  raw: string
+): { ok: boolean; actual: number; message: string } {
+  const exp = parseExpectation(raw);
+  const actual = tips.filter(
+    (f) =>
+      f.tip.id === exp.ruleId &&
+      (exp.before === undefined || f.gameTime < exp.before)
+  ).length;
+  const ok =
+    exp.op === "="
+      ? actual === exp.count
+      : exp.op === ">="
+      ? actual >= exp.count
+      : actual <= exp.count;
+  return {
+    ok,
+    actual,
+    message: `${ok ? "PASS" : "FAIL"} ${exp.raw} (fired ${actual}×)`,
+  };
+}
+
+function fmtClock(seconds: number): string {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, "0")}`;
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const opt = (name: string): string | undefined => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+  const expects: string[] = [];
+  args.forEach((a, i) => {
+    if (a === "--expect" && args[i + 1]) expects.push(args[i + 1]);
+  });
+
+  (async () => {
+    const until = opt("until") !== undefined ? Number(opt("until")) : undefined;
+    let timeline: TimelinePoint[];
+    if (opt("session")) {
+      timeline = await timelineFromSession(path.resolve(opt("session")!));
+    } else if (opt("match")) {
+      timeline = timelineFromMatch(path.resolve(opt("match")!));
+    } else {
+      timeline = syntheticTimeline(opt("mode") || "CLASSIC", until ?? 1800);
+    }
+    const tips = await simulateTips({
+      timeline,
+      rulesDir: opt("rules") ? path.resolve(opt("rules")!) : undefined,
+      from: opt("from") !== undefined ? Number(opt("from")) : undefined,
+      until,
+      step: opt("step") !== undefined ? Number(opt("step")) : undefined,
+    });
+
+    if (args.includes("--json")) {
+      console.log(JSON.stringify(tips, null, 2));
+    } else {
+      for (const f of tips) {
+        console.log(
+          `${fmtClock(f.gameTime).padStart(6)}  ${f.tip.id.padEnd(24)}  ${
+            f.tip.title
+          }`
+        );
+      }
+      console.log(`${tips.length} tip(s) fired`);
+    }
+
+    let failed = 0;
+    for (const e of expects) {
+      const res = checkExpectation(tips, e);
+      console.error(res.message);
+      if (!res.ok) failed++;
+    }
+    process.exit(failed ? 1 : 0);
+  })().catch((err) => {
+    console.error("[tipsSim]", (err as Error).message);
+    process.exit(2);
+  });
+}
@@ -0,0 +1,76 @@
+// Tip title/body templates:
+//
+//   "{objective|upper} in {lead}s"
+//   "{count} {count|plural:enemy:enemies} dead for {window|clock}"
+//   "Watch {enemy.jungler.champion|default:their jungler}"
+//
+// A placeholder is a dotted path into the context, then any number of
+// `|filter` or `|filter:arg` steps. Missing values render as "?" unless a
+// `default` filter supplies a fallback. `{{` and `}}` print literal braces.
+
+type Filter = (value: unknown, args: string[]) => unknown;
+
+function clock(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, "0")}`;
+}
+
+const isMissing = (v: unknown) => v === undefined || v === null || v === "";
+
+const FILTERS: Record<string, Filter> = {
+  clock: (v) => (typeof v === "number" ? clock(v) : v),
+  upper: (v) => (isMissing(v) ? v : String(v).toUpperCase()),
+  lower: (v) => (isMissing(v) ? v : String(v).toLowerCase()),
+  round: (v) => (typeof v === "number" ? Math.round(v) : v),
+  abs: (v) => (typeof v === "number" ? Math.abs(v) : v),
+  // plural:point → point/points; plural:enemy:enemies → enemy/enemies
+  plural: (v, [one = "", many]) =>
+    Number(v) === 1 ? one : many ?? `${one}s`,
+  default: (v, args) => (isMissing(v) ? args.join(":") : v),
+  join: (v, [sep = ", "]) => (Array.isArray(v) ? v.join(sep) : v),
+};
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  let value: unknown = context;
+  for (const part of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = Object.prototype.hasOwnProperty.call(value, part)
+      ? (value as Record<string, unknown>)[part]
+      : undefined;
+  }
+  return value;
+}
+
+function format(value: unknown): string {
+  if (isMissing(value)) return "?";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "number")
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  if (typeof value === "object") return "?";
+  return String(value);
+}
+
+/** Fill every placeholder in `template` from `context`. */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>
+): string {
+  return String(template)
+    .replace(/\{\{|\}\}|\{([^{}]+)\}/g, (match, expr: string | undefined) => {
+      if (match === "{{") return "\u0000";
+      if (match === "}}") return "\u0001";
+      const [path, ...steps] = expr!.split("|").map((p) => p.trim());
+      let value = lookup(context, path);
+      for (const step of steps) {
+        const [name, ...args] = step.split(":");
+        const filter = Object.prototype.hasOwnProperty.call(FILTERS, name)
+          ? FILTERS[name]
+          : null;
+        // Unknown filters are ignored rather than breaking the tip
+        if (filter) value = filter(value, args);
+      }
+      return format(value);
+    })
+    .replace(/\u0000/g, "{")
+    .replace(/\u0001/g, "}");
+}
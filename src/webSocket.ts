@@ -0,0 +1,169 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import type { Duplex } from "stream";
+import { EventEmitter } from "events";
+
+// Just enough of RFC 6455 for the local API: accept the upgrade, push text
+// messages to the client, answer pings and close cleanly. Client messages
+// are read (and must be masked) but the API doesn't act on them.
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_CLIENT_FRAME = 64 * 1024;
+// Unsent data allowed to pile up for one client before it is dropped
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+// How long a closing client gets to answer the close frame
+const CLOSE_TIMEOUT_MS = 2000;
+
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+function frame(opcode: number, payload: Buffer): Buffer {
+  const len = payload.length;
+  let header: Buffer;
+  if (len < 126) {
+    header = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** One connected client; emits "message" (text) and "close". */
+export class WebSocketClient extends EventEmitter {
+  private buffer = Buffer.alloc(0);
+  private closed = false;
+  private closeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly socket: Duplex, head?: Buffer) {
+    super();
+    // Frames that arrived in the same packet as the handshake
+    if (head?.length) this.read(head);
+    socket.on("data", (chunk: Buffer) => this.read(chunk));
+    socket.on("close", () => this.terminate());
+    socket.on("error", () => this.terminate());
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(text: string) {
+    if (this.closed) return;
+    // A client that stopped reading (a stalled browser source) is dropped
+    // rather than buffered without limit
+    if (this.socket.writableLength > MAX_BUFFERED_BYTES) {
+      this.terminate();
+      return;
+    }
+    this.socket.write(frame(OP_TEXT, Buffer.from(text, "utf8")));
+  }
+
+  /**
+   * Send a close frame and half-close. The socket is torn down once the
+   * peer closes its side, or after CLOSE_TIMEOUT_MS if it never does.
+   */
+  close(code = 1000) {
+    if (this.closed) return;
+    this.markClosed();
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.socket.end(frame(OP_CLOSE, payload));
+    this.closeTimer = setTimeout(() => this.socket.destroy(), CLOSE_TIMEOUT_MS);
+    this.closeTimer.unref?.();
+  }
+
+  // Drop the connection without a closing handshake
+  private terminate() {
+    if (this.closeTimer) clearTimeout(this.closeTimer);
+    this.closeTimer = null;
+    this.markClosed();
+    this.socket.destroy();
+  }
+
+  private markClosed() {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit("close");
+  }
+
+  private read(chunk: Buffer) {
+    // After our close frame, only the peer's closing of the socket matters
+    if (this.closed) return;
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 2) {
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let len = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (len === 126) {
+        if (this.buffer.length < 4) return;
+        len = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (len === 127) {
+        if (this.buffer.length < 10) return;
+        len = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Clients must mask; the API never expects large messages
+      if (!masked || len > MAX_CLIENT_FRAME) {
+        this.close(1002);
+        return;
+      }
+      if (this.buffer.length < offset + 4 + len) return;
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(
+        this.buffer.subarray(offset + 4, offset + 4 + len)
+      );
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + len);
+      if (opcode === OP_CLOSE) {
+        this.close();
+        return;
+      }
+      if (opcode === OP_PING) this.socket.write(frame(OP_PONG, payload));
+      else if (opcode === OP_TEXT) this.emit("message", payload.toString());
+    }
+  }
+}
+
+/**
+ * Complete the WebSocket handshake for an HTTP upgrade request. Returns null
+ * (after answering 400) when the request isn't a valid WebSocket upgrade.
+ */
+export function acceptWebSocket(
+  req: http.IncomingMessage,
+  socket: Duplex,
+  head?: Buffer
+): WebSocketClient | null {
+  const key = req.headers["sec-websocket-key"];
+  const upgrade = String(req.headers.upgrade || "").toLowerCase();
+  if (upgrade !== "websocket" || typeof key !== "string" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+    return null;
+  }
+  const accept = crypto
+    .createHash("sha1")
+    .update(key + HANDSHAKE_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+  return new WebSocketClient(socket, head);
+}